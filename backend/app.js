@@ -3,9 +3,12 @@ var express = require('express');
 var path = require('path');
 var cookieParser = require('cookie-parser');
 var logger = require('morgan');
+var cors = require('cors');
 
 var indexRouter = require('./routes/index');
 var usersRouter = require('./routes/users');
+var scansRouter = require('./routes/scans');
+var regionsRouter = require('./routes/regions');
 
 var app = express();
 
@@ -14,19 +17,38 @@ app.set('views', path.join(__dirname, 'views'));
 app.set('view engine', 'ejs');
 
 app.use(logger('dev'));
-app.use(express.json());
+// Scan photos are posted as base64 JSON, so allow bodies well above the 100kb default
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '12mb' }));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 app.use(express.static(path.join(__dirname, 'public')));
 
 app.use('/', indexRouter);
 app.use('/users', usersRouter);
+app.use('/api', cors({ origin: process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : true }));
+app.use('/api/scans', scansRouter);
+app.use('/api/regions', regionsRouter);
 
 // catch 404 and forward to error handler
 app.use(function(req, res, next) {
   next(createError(404));
 });
 
+// API error handler - JSON instead of the HTML error page
+app.use('/api', function(err, req, res, next) {
+  var status = err.status || 500;
+  if (status >= 500) {
+    console.error(err);
+  }
+
+  res.status(status).json({
+    error: {
+      message: status < 500 || err.expose ? err.message : 'Internal server error',
+      kind: err.kind || null
+    }
+  });
+});
+
 // error handler
 app.use(function(err, req, res, next) {
   // set locals, only providing error in development
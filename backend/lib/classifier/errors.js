@@ -0,0 +1,62 @@
+/**
+ * Classifier failures, grouped into the kinds the app can explain to the user.
+ * Keep the kinds in sync with src/classifier/errors.ts.
+ */
+
+var KINDS = [
+  'blocked', // the model refused the image (safety filters)
+  'no_object', // nothing recognizable in the photo
+  'quota', // rate limited or out of quota
+  'network', // request never reached the model
+  'invalid_response', // answer could not be turned into a result, even after repair
+  'unknown'
+];
+
+// HTTP status the API answers with for each kind
+var STATUS_BY_KIND = {
+  blocked: 422,
+  no_object: 422,
+  quota: 429,
+  network: 502,
+  invalid_response: 502,
+  unknown: 500
+};
+
+class ClassifierError extends Error {
+  constructor(kind, message, options) {
+    super(message);
+    this.name = 'ClassifierError';
+    this.kind = KINDS.includes(kind) ? kind : 'unknown';
+    this.status = STATUS_BY_KIND[this.kind];
+    if (options && options.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Best-effort mapping of SDK / fetch failures onto our error kinds.
+ */
+
+function toClassifierError(err) {
+  if (err instanceof ClassifierError) return err;
+
+  var status = err && err.status;
+  var message = err instanceof Error ? err.message : String(err);
+
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+    return new ClassifierError('quota', message, { cause: err });
+  }
+  if (/fetch failed|ECONNRESET|ENOTFOUND|ETIMEDOUT|network/i.test(message)) {
+    return new ClassifierError('network', message, { cause: err });
+  }
+  if (/safety|blocked/i.test(message)) {
+    return new ClassifierError('blocked', message, { cause: err });
+  }
+  return new ClassifierError('unknown', message, { cause: err });
+}
+
+module.exports = {
+  ClassifierError: ClassifierError,
+  toClassifierError: toClassifierError
+};
@@ -0,0 +1,141 @@
+/**
+ * Gemini classifier provider. Runs server-side only so the API key never reaches the browser.
+ * Prompts come from the versioned templates in prompts/ (see lib/prompts.js); every result
+ * carries the promptVersion that produced it.
+ */
+
+var { GoogleGenerativeAI } = require('@google/generative-ai');
+var { ClassifierError, toClassifierError } = require('./errors');
+var { parseClassificationText, parseDetectedItemsText } = require('./schema');
+var { renderPrompt } = require('../prompts');
+
+var DEFAULT_MODEL = 'gemini-2.5-flash';
+
+var BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+/**
+ * Safety blocks surface as a missing candidate or a special finish reason rather than a thrown error.
+ */
+
+function readResponseText(result) {
+  var response = result.response;
+
+  if (response.promptFeedback && response.promptFeedback.blockReason) {
+    throw new ClassifierError('blocked', 'Prompt blocked: ' + response.promptFeedback.blockReason);
+  }
+  var finishReason = response.candidates && response.candidates[0] && response.candidates[0].finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new ClassifierError('blocked', 'Response blocked: ' + finishReason);
+  }
+
+  return response.text();
+}
+
+/**
+ * Self-consistency: the recyclable verdict most samples agree on wins, and its confidence is the
+ * share of samples that agreed scaled by the model's own average estimate for those samples.
+ * A tie (e.g. one of three samples failed) goes to "not recyclable" at half confidence, so the
+ * scan asks the user to confirm rather than sending a doubtful item to the recycling bin.
+ */
+
+function combineSamples(samples) {
+  var recyclableVotes = samples.filter(function(sample) { return sample.recyclable; }).length;
+  var majorityRecyclable = recyclableVotes * 2 > samples.length;
+  var majority = samples.filter(function(sample) { return sample.recyclable === majorityRecyclable; });
+
+  var agreement = majority.length / samples.length;
+  var statedConfidence = majority.reduce(function(sum, sample) { return sum + sample.confidence; }, 0) / majority.length;
+  var best = majority.slice().sort(function(a, b) { return b.confidence - a.confidence; })[0];
+
+  return Object.assign({}, best, { confidence: agreement * statedConfidence });
+}
+
+/**
+ * Options: apiKey, model, samples (answers per scan; more than one enables self-consistency scoring).
+ */
+
+function createGeminiProvider(options) {
+  var apiKey = options.apiKey;
+  var model = options.model || DEFAULT_MODEL;
+  var samples = options.samples || 1;
+
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set - use CLASSIFIER_PROVIDER=mock for offline runs');
+  }
+
+  var genAI = new GoogleGenerativeAI(apiKey);
+  var generativeModel = genAI.getGenerativeModel({
+    model: model,
+    // Sampling only makes sense with some randomness in the answers
+    generationConfig: samples > 1 ? { temperature: 0.9 } : undefined
+  });
+
+  // Sends the prompt with the image and validates the answer, with one repair pass for malformed JSON
+  async function generateJson(prompt, image, parse, context) {
+    var result = await generativeModel.generateContent([
+      prompt,
+      { inlineData: { mimeType: image.mimeType, data: image.data } }
+    ]);
+
+    var text = readResponseText(result);
+
+    try {
+      return parse(text);
+    } catch (err) {
+      if (!(err instanceof ClassifierError) || err.kind !== 'invalid_response') throw err;
+
+      // Hand the broken answer back along with the original format and ask for valid JSON
+      console.warn('Gemini response failed validation, asking for a repaired answer:', err.message);
+      var repair = renderPrompt('repair', { uid: context && context.uid });
+      var retry = await generativeModel.generateContent(
+        repair.text + '\nFormat:\n' + prompt + '\nPrevious answer:\n' + text
+      );
+      return parse(readResponseText(retry));
+    }
+  }
+
+  async function classifyOnce(image, prompt, context) {
+    var answer = await generateJson(prompt.text, image, parseClassificationText, context);
+    return Object.assign(answer, { promptVersion: prompt.version });
+  }
+
+  return {
+    id: 'gemini',
+    // context: { uid, language, region, promptVersion? }, all optional
+    classify: async function(image, context) {
+      try {
+        var prompt = renderPrompt('single', context);
+        if (samples <= 1) return await classifyOnce(image, prompt, context);
+
+        var attempts = [];
+        for (var i = 0; i < samples; i++) attempts.push(classifyOnce(image, prompt, context));
+        var settled = await Promise.allSettled(attempts);
+        var answers = settled
+          .filter(function(outcome) { return outcome.status === 'fulfilled'; })
+          .map(function(outcome) { return outcome.value; });
+
+        if (answers.length === 0) {
+          throw settled[0].reason;
+        }
+        return combineSamples(answers);
+      } catch (err) {
+        throw toClassifierError(err);
+      }
+    },
+    // Asked once whatever `samples` is: answers can't be matched item by item to vote on, so each
+    // item keeps the model's own, uncalibrated confidence
+    detectItems: async function(image, context) {
+      try {
+        var prompt = renderPrompt('multi', context);
+        var items = await generateJson(prompt.text, image, parseDetectedItemsText, context);
+        return items.map(function(item) {
+          return Object.assign(item, { promptVersion: prompt.version });
+        });
+      } catch (err) {
+        throw toClassifierError(err);
+      }
+    }
+  };
+}
+
+module.exports = { createGeminiProvider: createGeminiProvider };
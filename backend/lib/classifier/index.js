@@ -0,0 +1,58 @@
+/**
+ * Classifier registry. CLASSIFIER_PROVIDER picks the provider ("gemini" by default, or "mock").
+ */
+
+var { createGeminiProvider } = require('./gemini');
+var { createMockProvider } = require('./mock');
+var { ClassifierError, toClassifierError } = require('./errors');
+
+var DEFAULT_PROVIDER = 'gemini';
+
+var registry = {
+  gemini: function() {
+    return createGeminiProvider({
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_MODEL,
+      samples: Number(process.env.GEMINI_SAMPLES) || 1
+    });
+  },
+  mock: function() {
+    return createMockProvider();
+  }
+};
+
+var instances = new Map();
+
+/**
+ * Lets tests or scripts plug in their own provider under a new (or existing) id.
+ */
+
+function registerClassifier(id, factory) {
+  registry[id] = factory;
+  instances.delete(id);
+}
+
+/**
+ * Providers are created on first use so a missing API key only matters if Gemini is picked.
+ */
+
+function getClassifier(id) {
+  id = id || process.env.CLASSIFIER_PROVIDER || DEFAULT_PROVIDER;
+  if (instances.has(id)) return instances.get(id);
+
+  var factory = registry[id];
+  if (!factory) {
+    throw new Error('Unknown classifier provider "' + id + '". Available: ' + Object.keys(registry).join(', '));
+  }
+
+  var provider = factory();
+  instances.set(id, provider);
+  return provider;
+}
+
+module.exports = {
+  getClassifier: getClassifier,
+  registerClassifier: registerClassifier,
+  ClassifierError: ClassifierError,
+  toClassifierError: toClassifierError
+};
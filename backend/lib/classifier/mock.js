@@ -0,0 +1,91 @@
+/**
+ * Deterministic classifier for tests, the emulator and offline demos - no API key needed.
+ * Mirrors src/classifier/mock.ts so the app behaves the same with or without the backend.
+ */
+
+// Fixed answers so the same photo always gets the same verdict
+var SAMPLE_RESULTS = [
+  {
+    object: 'Plastic water bottle',
+    recyclable: true,
+    reason: 'PET #1 plastic is accepted by most curbside programs.',
+    instructions: 'Empty and rinse the bottle, put the cap back on, and place it in the recycling bin.',
+    confidence: 0.94
+  },
+  {
+    object: 'Aluminum soda can',
+    recyclable: true,
+    reason: 'Aluminum can be recycled indefinitely without losing quality.',
+    instructions: 'Rinse out any liquid and place the can in the recycling bin. No need to crush it.',
+    confidence: 0.91
+  },
+  {
+    object: 'Cardboard box',
+    recyclable: true,
+    reason: 'Clean corrugated cardboard is widely recycled.',
+    instructions: 'Remove tape and packing material, flatten the box, and keep it dry.',
+    confidence: 0.88
+  },
+  {
+    object: 'Chip bag',
+    recyclable: false,
+    reason: 'Multi-layer foil and plastic film cannot be separated by most facilities.',
+    instructions: 'Put it in the trash, or look for a dedicated snack-wrapper take-back program.',
+    confidence: 0.55
+  },
+  {
+    object: 'Styrofoam cup',
+    recyclable: false,
+    reason: 'Expanded polystyrene is rarely accepted curbside.',
+    instructions: 'Dispose of it in the trash and switch to a reusable cup.',
+    confidence: 0.79
+  }
+];
+
+var SAMPLE_MATERIALS = ['PET plastic', 'Aluminum', 'Corrugated cardboard', 'Metallized plastic film', 'Polystyrene foam'];
+
+// Non-overlapping slots for multi-item answers
+var SAMPLE_BOXES = [
+  { x: 0.05, y: 0.1, width: 0.28, height: 0.5 },
+  { x: 0.38, y: 0.3, width: 0.25, height: 0.4 },
+  { x: 0.68, y: 0.15, width: 0.27, height: 0.6 }
+];
+
+// Small string hash (FNV-1a) so the pick depends only on the image bytes
+function hashString(value) {
+  var hash = 0x811c9dc5;
+  for (var i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function delay(ms) {
+  return new Promise(function(resolve) { setTimeout(resolve, ms); });
+}
+
+function createMockProvider(options) {
+  var latencyMs = options && options.latencyMs !== undefined ? options.latencyMs : 400;
+
+  return {
+    id: 'mock',
+    classify: async function(image) {
+      await delay(latencyMs);
+      var pick = SAMPLE_RESULTS[hashString(image.data) % SAMPLE_RESULTS.length];
+      return Object.assign({}, pick);
+    },
+    detectItems: async function(image) {
+      await delay(latencyMs);
+      var hash = hashString(image.data);
+      var count = 2 + (hash % 2);
+
+      return SAMPLE_BOXES.slice(0, count).map(function(box, i) {
+        var index = (hash + i) % SAMPLE_RESULTS.length;
+        return Object.assign({}, SAMPLE_RESULTS[index], { material: SAMPLE_MATERIALS[index], box: box });
+      });
+    }
+  };
+}
+
+module.exports = { createMockProvider: createMockProvider };
@@ -0,0 +1,103 @@
+/**
+ * Record/replay providers for the evaluation harness (scripts/eval-classifier.js).
+ *
+ * A recording wraps a real provider and keeps every answer (or error) with its latency, keyed by
+ * a hash of the image. Replaying a saved recording gives the same answers offline, so the scoring
+ * can be rerun without an API key or quota.
+ */
+
+var crypto = require('crypto');
+var { ClassifierError, toClassifierError } = require('./errors');
+
+var RECORDING_FORMAT = 1;
+
+function imageKey(image) {
+  return crypto.createHash('sha256').update(image.data).digest('hex');
+}
+
+/**
+ * Wraps provider and records what it answers. toJSON() returns the recording to save.
+ */
+
+function createRecordingProvider(provider) {
+  var responses = {};
+
+  async function record(mode, image, call) {
+    var startedAt = Date.now();
+    var entry = { mode: mode };
+    try {
+      entry.result = await call();
+      return entry.result;
+    } catch (err) {
+      var classifierError = toClassifierError(err);
+      entry.error = { kind: classifierError.kind, message: classifierError.message };
+      throw classifierError;
+    } finally {
+      entry.ms = Date.now() - startedAt;
+      responses[mode + ':' + imageKey(image)] = entry;
+    }
+  }
+
+  return {
+    id: provider.id,
+    classify: function(image, context) {
+      return record('single', image, function() { return provider.classify(image, context); });
+    },
+    detectItems: function(image, context) {
+      return record('multi', image, function() { return provider.detectItems(image, context); });
+    },
+    toJSON: function() {
+      return {
+        format: RECORDING_FORMAT,
+        provider: provider.id,
+        recordedAt: new Date().toISOString(),
+        responses: responses
+      };
+    }
+  };
+}
+
+/**
+ * Answers from a saved recording. Images that weren't recorded fail with an "unknown" error;
+ * latencyFor(image, mode) returns the latency measured when recording.
+ */
+
+function createReplayProvider(recording) {
+  if (!recording || recording.format !== RECORDING_FORMAT || !recording.responses) {
+    throw new Error('Not a classifier recording (expected format ' + RECORDING_FORMAT + ')');
+  }
+
+  function lookup(mode, image) {
+    return recording.responses[mode + ':' + imageKey(image)];
+  }
+
+  async function replay(mode, image) {
+    var entry = lookup(mode, image);
+    if (!entry) {
+      throw new ClassifierError('unknown', 'No recorded response for this image - record it again');
+    }
+    if (entry.error) {
+      throw new ClassifierError(entry.error.kind, entry.error.message);
+    }
+    return JSON.parse(JSON.stringify(entry.result));
+  }
+
+  return {
+    id: 'replay:' + recording.provider,
+    classify: function(image) {
+      return replay('single', image);
+    },
+    detectItems: function(image) {
+      return replay('multi', image);
+    },
+    latencyFor: function(image, mode) {
+      var entry = lookup(mode || 'single', image);
+      return entry ? entry.ms : undefined;
+    }
+  };
+}
+
+module.exports = {
+  createRecordingProvider: createRecordingProvider,
+  createReplayProvider: createReplayProvider
+};
@@ -0,0 +1,184 @@
+/**
+ * Validation for model answers.
+ *
+ * Shape we ask the model for:
+ * { "object": string | null, "material_id": string, "recyclable": boolean, "confidence": number,
+ *   "reason": string, "instructions": string }
+ *
+ * material_id is optional; lib/materials.js falls back to keyword matching when it is missing or unknown.
+ *
+ * Multi-item mode wraps the same fields in { "items": [...] } and adds per item
+ * "material": string and "box_2d": [ymin, xmin, ymax, xmax] scaled to 0-1000 (Gemini's native box format).
+ */
+
+var { ClassifierError } = require('./errors');
+
+var TRUE_WORDS = ['true', 'yes', 'y', 'recyclable', '1'];
+var FALSE_WORDS = ['false', 'no', 'n', 'not recyclable', 'non-recyclable', '0'];
+var NO_OBJECT_WORDS = ['', 'none', 'null', 'unknown', 'no object', 'nothing', 'n/a'];
+
+// Used when the model leaves out its confidence, so the result still goes through the "Are you sure?" step
+var UNKNOWN_CONFIDENCE = 0.5;
+
+var BOX_SCALE = 1000;
+
+/**
+ * Models sometimes answer "yes"/"no" or "true" as a string - Boolean("no") would be true.
+ */
+
+function coerceBoolean(value) {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    var normalized = value.trim().toLowerCase();
+    if (TRUE_WORDS.includes(normalized)) return true;
+    if (FALSE_WORDS.includes(normalized)) return false;
+  }
+  return undefined;
+}
+
+// Bare numbers below this are an overshooting probability (1.5), not a percentage (1.5%)
+var MIN_BARE_PERCENTAGE = 10;
+
+/**
+ * Accepts 0-1 probabilities as well as percentages ("85", "85%"). Only values in (1, 100] can be
+ * percentages, and a bare number only from MIN_BARE_PERCENTAGE; everything else above 1 is clamped to 1.
+ */
+
+function coerceConfidence(value) {
+  var percentSign = typeof value === 'string' && value.trim().endsWith('%');
+  var number = typeof value === 'string' ? parseFloat(value.replace('%', '')) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return undefined;
+  if (number <= 1 && !percentSign) return number;
+  var percentage = number <= 100 && (percentSign || number >= MIN_BARE_PERCENTAGE);
+  return percentage ? number / 100 : 1;
+}
+
+function optionalString(value) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Fixes the usual ways model JSON goes wrong: code fences, smart quotes, trailing commas.
+ */
+
+function repairJson(text) {
+  return text
+    .replace(/```(?:json)?/gi, '')
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/,\s*([}\]])/g, '$1')
+    .trim();
+}
+
+function extractJson(text) {
+  var match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new ClassifierError('invalid_response', 'No JSON object found in model response');
+  }
+
+  try {
+    return JSON.parse(match[0]);
+  } catch (err) {
+    try {
+      return JSON.parse(repairJson(match[0]));
+    } catch (repairErr) {
+      throw new ClassifierError('invalid_response', 'Model response is not valid JSON', { cause: repairErr });
+    }
+  }
+}
+
+/**
+ * Turns [ymin, xmin, ymax, xmax] (0-1000) into { x, y, width, height } fractions of the image.
+ */
+
+function parseBox(value) {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  var numbers = value.map(function(n) { return typeof n === 'string' ? parseFloat(n) : n; });
+  if (!numbers.every(function(n) { return typeof n === 'number' && Number.isFinite(n); })) return undefined;
+
+  var clamped = numbers.map(function(n) { return Math.min(Math.max(n / BOX_SCALE, 0), 1); });
+  var ymin = clamped[0], xmin = clamped[1], ymax = clamped[2], xmax = clamped[3];
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
+
+function parseClassification(raw) {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ClassifierError('invalid_response', 'Model response is not a JSON object');
+  }
+
+  var object = typeof raw.object === 'string' ? raw.object.trim() : '';
+
+  if (NO_OBJECT_WORDS.includes(object.toLowerCase())) {
+    throw new ClassifierError('no_object', 'No object detected in the image');
+  }
+
+  var recyclable = coerceBoolean(raw.recyclable);
+  if (recyclable === undefined) {
+    throw new ClassifierError('invalid_response', 'Unrecognized "recyclable" value: ' + JSON.stringify(raw.recyclable));
+  }
+
+  var confidence = coerceConfidence(raw.confidence);
+
+  return {
+    object: object,
+    materialId: optionalString(raw.material_id),
+    recyclable: recyclable,
+    reason: optionalString(raw.reason),
+    instructions: optionalString(raw.instructions),
+    confidence: confidence === undefined ? UNKNOWN_CONFIDENCE : confidence
+  };
+}
+
+function parseDetectedItems(raw) {
+  var list = raw && raw.items;
+  if (!Array.isArray(list)) {
+    throw new ClassifierError('invalid_response', 'Model response has no "items" list');
+  }
+
+  var items = [];
+  list.forEach(function(entry) {
+    var item;
+    try {
+      item = parseClassification(entry);
+    } catch (err) {
+      // A single unusable entry shouldn't sink the whole photo
+      console.warn('Skipping detected item that failed validation:', err.message);
+      return;
+    }
+
+    var box = parseBox(entry.box_2d);
+    if (!box) {
+      console.warn('Skipping detected item without a usable box:', JSON.stringify(entry));
+      return;
+    }
+    item.material = optionalString(entry.material);
+    item.box = box;
+    items.push(item);
+  });
+
+  if (items.length === 0) {
+    throw new ClassifierError('no_object', 'No objects detected in the image');
+  }
+  return items;
+}
+
+function parseClassificationText(text) {
+  return parseClassification(extractJson(text));
+}
+
+function parseDetectedItemsText(text) {
+  return parseDetectedItems(extractJson(text));
+}
+
+module.exports = {
+  coerceBoolean: coerceBoolean,
+  coerceConfidence: coerceConfidence,
+  extractJson: extractJson,
+  parseClassification: parseClassification,
+  parseDetectedItems: parseDetectedItems,
+  parseClassificationText: parseClassificationText,
+  parseDetectedItemsText: parseDetectedItemsText
+};
@@ -0,0 +1,141 @@
+var { describe, it, beforeEach, afterEach, mock } = require('node:test');
+var assert = require('node:assert/strict');
+
+var {
+  coerceBoolean,
+  coerceConfidence,
+  extractJson,
+  parseClassification,
+  parseClassificationText,
+  parseDetectedItemsText
+} = require('./schema');
+
+function kindOf(fn) {
+  try {
+    fn();
+  } catch (err) {
+    return err.kind;
+  }
+  return undefined;
+}
+
+describe('coerceBoolean', function() {
+  it('reads the ways models write yes and no', function() {
+    assert.equal(coerceBoolean(true), true);
+    assert.equal(coerceBoolean('Yes'), true);
+    assert.equal(coerceBoolean(' recyclable '), true);
+    assert.equal(coerceBoolean(1), true);
+    assert.equal(coerceBoolean('no'), false);
+    assert.equal(coerceBoolean('Not recyclable'), false);
+    assert.equal(coerceBoolean(0), false);
+  });
+
+  it('returns undefined for anything else', function() {
+    assert.equal(coerceBoolean('maybe'), undefined);
+    assert.equal(coerceBoolean(null), undefined);
+  });
+});
+
+describe('coerceConfidence', function() {
+  it('accepts probabilities and percentages', function() {
+    assert.equal(coerceConfidence(0.85), 0.85);
+    assert.equal(coerceConfidence(85), 0.85);
+    assert.equal(coerceConfidence('85%'), 0.85);
+    assert.equal(coerceConfidence('0.4'), 0.4);
+  });
+
+  it('clamps probabilities that overshoot 1 instead of reading them as tiny percentages', function() {
+    assert.equal(coerceConfidence(1), 1);
+    assert.equal(coerceConfidence(1.5), 1);
+    assert.equal(coerceConfidence(2), 1);
+    assert.equal(coerceConfidence('2'), 1);
+    assert.equal(coerceConfidence(250), 1);
+  });
+
+  it('reads values up to 100 as percentages', function() {
+    assert.equal(coerceConfidence(100), 1);
+    assert.equal(coerceConfidence(40), 0.4);
+    assert.equal(coerceConfidence('5%'), 0.05);
+    assert.equal(coerceConfidence('0.5%'), 0.005);
+  });
+
+  it('rejects what is not a confidence', function() {
+    assert.equal(coerceConfidence(-0.2), undefined);
+    assert.equal(coerceConfidence('high'), undefined);
+    assert.equal(coerceConfidence(undefined), undefined);
+  });
+});
+
+describe('extractJson', function() {
+  it('finds the object in surrounding prose', function() {
+    assert.deepEqual(extractJson('Here you go: {"object": "can"} Hope that helps'), { object: 'can' });
+  });
+
+  it('repairs code fences, smart quotes and trailing commas', function() {
+    assert.deepEqual(extractJson('```json\n{“object”: “can”, "tags": ["metal",],}\n```'), { object: 'can', tags: ['metal'] });
+  });
+
+  it('reports answers without usable JSON', function() {
+    assert.equal(kindOf(function() { extractJson('I cannot tell'); }), 'invalid_response');
+    assert.equal(kindOf(function() { extractJson('{"object": can}'); }), 'invalid_response');
+  });
+});
+
+describe('parseClassification', function() {
+  it('normalizes a model answer', function() {
+    assert.deepEqual(
+      parseClassificationText('{"object": " Soda can ", "material_id": "aluminum-can", "recyclable": "yes", "confidence": "90%", "reason": "Metal", "instructions": " "}'),
+      { object: 'Soda can', materialId: 'aluminum-can', recyclable: true, reason: 'Metal', instructions: undefined, confidence: 0.9 }
+    );
+  });
+
+  it('asks for confirmation when the confidence is missing', function() {
+    assert.equal(parseClassification({ object: 'Cup', recyclable: false }).confidence, 0.5);
+  });
+
+  it('reports photos without an object', function() {
+    assert.equal(kindOf(function() { parseClassification({ object: 'None', recyclable: false }); }), 'no_object');
+    assert.equal(kindOf(function() { parseClassification({ recyclable: true }); }), 'no_object');
+  });
+
+  it('rejects answers it cannot use', function() {
+    assert.equal(kindOf(function() { parseClassification([]); }), 'invalid_response');
+    assert.equal(kindOf(function() { parseClassification({ object: 'Cup', recyclable: 'depends' }); }), 'invalid_response');
+  });
+});
+
+describe('parseDetectedItemsText', function() {
+  var warn;
+
+  beforeEach(function() {
+    warn = mock.method(console, 'warn', function() {});
+  });
+
+  afterEach(function() {
+    mock.restoreAll();
+  });
+
+  it('converts boxes to fractions of the image and skips unusable items', function() {
+    var items = parseDetectedItemsText(JSON.stringify({
+      items: [
+        { object: 'Can', material: 'Aluminium', recyclable: true, confidence: 0.9, box_2d: [100, 200, 500, 600] },
+        { object: 'Bag', recyclable: 'unsure', confidence: 0.9, box_2d: [0, 0, 100, 100] },
+        { object: 'Cup', recyclable: false, confidence: 0.9, box_2d: [500, 500, 400, 600] },
+        { object: 'Lid', recyclable: false, confidence: 0.9 }
+      ]
+    }));
+
+    assert.equal(items.length, 1);
+    assert.equal(items[0].material, 'Aluminium');
+    assert.ok(Math.abs(items[0].box.x - 0.2) < 1e-9);
+    assert.ok(Math.abs(items[0].box.y - 0.1) < 1e-9);
+    assert.ok(Math.abs(items[0].box.width - 0.4) < 1e-9);
+    assert.ok(Math.abs(items[0].box.height - 0.4) < 1e-9);
+    assert.equal(warn.mock.callCount(), 3);
+  });
+
+  it('reports photos where no item could be used', function() {
+    assert.equal(kindOf(function() { parseDetectedItemsText('{"items": []}'); }), 'no_object');
+    assert.equal(kindOf(function() { parseDetectedItemsText('{"object": "Can"}'); }), 'invalid_response');
+  });
+});
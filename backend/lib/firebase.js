@@ -0,0 +1,33 @@
+/**
+ * Firebase Admin setup shared by every route.
+ *
+ * Credentials come from serviceAccountFirebase.json next to app.js (git-ignored),
+ * FIREBASE_SERVICE_ACCOUNT, or Application Default Credentials. When the
+ * FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST / FIREBASE_STORAGE_EMULATOR_HOST
+ * variables are set the Admin SDK talks to the local emulators instead and no credentials
+ * are needed.
+ */
+
+var admin = require('firebase-admin');
+var fs = require('fs');
+var path = require('path');
+
+var serviceAccountPath = process.env.FIREBASE_SERVICE_ACCOUNT || path.join(__dirname, '..', 'serviceAccountFirebase.json');
+
+if (!admin.apps.length) {
+  var options = {
+    projectId: process.env.FIREBASE_PROJECT_ID || 'ecoscan-8a754',
+    storageBucket: process.env.FIREBASE_STORAGE_BUCKET || 'ecoscan-8a754.firebasestorage.app'
+  };
+  if (fs.existsSync(serviceAccountPath)) {
+    options.credential = admin.credential.cert(require(serviceAccountPath));
+  }
+  admin.initializeApp(options);
+}
+
+module.exports = {
+  admin: admin,
+  auth: admin.auth(),
+  db: admin.firestore(),
+  bucket: admin.storage().bucket()
+};
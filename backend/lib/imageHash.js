@@ -0,0 +1,60 @@
+/**
+ * Perceptual hashing for spotting the same item photographed again.
+ *
+ * dHash: shrink the image to 9x8 greyscale and record, for each pixel, whether it is brighter
+ * than its right-hand neighbour. Re-encoding, resizing and small shifts in framing barely change
+ * the 64 bits, so near-duplicate photos end up a small Hamming distance apart.
+ */
+
+var sharp = require('sharp');
+
+var HASH_WIDTH = 9;
+var HASH_HEIGHT = 8;
+
+/**
+ * Returns the 64-bit dHash of an encoded image as 16 hex characters.
+ */
+
+async function imageHash(buffer) {
+  var pixels = await sharp(buffer)
+    .rotate() // apply EXIF orientation so a rotated re-take hashes the same
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  var hash = '';
+  for (var row = 0; row < HASH_HEIGHT; row++) {
+    var nibble = 0;
+    for (var col = 0; col < HASH_WIDTH - 1; col++) {
+      var offset = row * HASH_WIDTH + col;
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes from imageHash.
+ */
+
+function hammingDistance(a, b) {
+  var distance = 0;
+  for (var i = 0; i < a.length; i++) {
+    var diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+module.exports = {
+  imageHash: imageHash,
+  hammingDistance: hammingDistance
+};
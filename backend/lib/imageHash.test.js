@@ -0,0 +1,42 @@
+var { describe, it } = require('node:test');
+var assert = require('node:assert/strict');
+var sharp = require('sharp');
+
+var { imageHash, hammingDistance } = require('./imageHash');
+
+// A photo-like test image: a gradient with a dark shape off to one side
+function drawing(shapeX) {
+  var svg = '<svg xmlns="http://www.w3.org/2000/svg" width="640" height="480">'
+    + '<defs><linearGradient id="g"><stop offset="0" stop-color="#dde"/><stop offset="1" stop-color="#446"/></linearGradient></defs>'
+    + '<rect width="640" height="480" fill="url(#g)"/>'
+    + '<circle cx="' + shapeX + '" cy="240" r="120" fill="#222"/>'
+    + '</svg>';
+  return sharp(Buffer.from(svg)).jpeg({ quality: 90 }).toBuffer();
+}
+
+describe('imageHash', function() {
+  it('returns 64 bits as 16 hex characters', async function() {
+    assert.match(await imageHash(await drawing(200)), /^[0-9a-f]{16}$/);
+  });
+
+  it('barely changes when the photo is re-encoded and resized', async function() {
+    var original = await drawing(200);
+    var copy = await sharp(original).resize(320).jpeg({ quality: 40 }).toBuffer();
+    assert.ok(hammingDistance(await imageHash(original), await imageHash(copy)) <= 4);
+  });
+
+  it('tells different photos apart', async function() {
+    var left = await imageHash(await drawing(150));
+    var right = await imageHash(await drawing(490));
+    assert.ok(hammingDistance(left, right) > 10);
+  });
+});
+
+describe('hammingDistance', function() {
+  it('counts the differing bits', function() {
+    assert.equal(hammingDistance('0000000000000000', '0000000000000000'), 0);
+    assert.equal(hammingDistance('0000000000000000', '000000000000000f'), 4);
+    assert.equal(hammingDistance('0000000000000000', 'ffffffffffffffff'), 64);
+    assert.equal(hammingDistance('8000000000000001', '0000000000000000'), 2);
+  });
+});
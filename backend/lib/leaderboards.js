@@ -0,0 +1,130 @@
+/**
+ * Weekly and monthly leaderboards.
+ *
+ * Every award also adds to the user's entry in leaderboards/{type}/periods/{periodId}/entries/{uid}
+ * for the current week and month, so a period board is one query ordered by points, like the
+ * all-time board on users. Periods run on UTC, like the daily cap: weeks are ISO weeks starting on
+ * Monday ("2025-W11") and months are "2025-03". A new period starts from an empty board;
+ * scripts/close-leaderboards.js archives a finished one by writing its winners to the period
+ * document, and its entries stay readable.
+ *
+ * Entries copy the user's name so the board needs no extra reads; it is refreshed with every award.
+ * The period document counts the entries in `participants`, so the app can show the size of the
+ * board without reading it.
+ */
+
+var { admin, db } = require('./firebase');
+
+var FieldValue = admin.firestore.FieldValue;
+var Timestamp = admin.firestore.Timestamp;
+
+var PERIOD_TYPES = ['weekly', 'monthly'];
+var DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(value) {
+  return String(value).padStart(2, '0');
+}
+
+// ISO 8601 week: the week belongs to the year its Thursday falls in
+function isoWeekId(monday) {
+  var thursday = new Date(monday.getTime() + 3 * DAY_MS);
+  var yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  var week = Math.floor((thursday.getTime() - yearStart) / (7 * DAY_MS)) + 1;
+  return thursday.getUTCFullYear() + '-W' + pad(week);
+}
+
+/**
+ * The weekly or monthly period date falls in: { type, id, startsAt, endsAt }, endsAt exclusive.
+ */
+
+function leaderboardPeriod(type, date) {
+  if (type === 'weekly') {
+    var day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    // getUTCDay() is 0 on Sunday; weeks start on Monday
+    var monday = new Date(day - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+    return { type: type, id: isoWeekId(monday), startsAt: monday, endsAt: new Date(monday.getTime() + 7 * DAY_MS) };
+  }
+  if (type === 'monthly') {
+    var start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    return {
+      type: type,
+      id: start.getUTCFullYear() + '-' + pad(start.getUTCMonth() + 1),
+      startsAt: start,
+      endsAt: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+    };
+  }
+  throw new Error('Unknown leaderboard period "' + type + '"');
+}
+
+function periodRef(period) {
+  return db.collection('leaderboards').doc(period.type).collection('periods').doc(period.id);
+}
+
+function entriesCollection(period) {
+  return periodRef(period).collection('entries');
+}
+
+/**
+ * Running totals for the periods now falls in, for a credit to add to. Reads the user's entries, so
+ * like openCredit it runs before the transaction's first write.
+ */
+
+async function openPeriods(tx, uid, now) {
+  var periods = PERIOD_TYPES.map(function(type) {
+    return { period: leaderboardPeriod(type, now), points: 0, itemsRecycled: 0 };
+  });
+  var entries = await tx.getAll.apply(tx, periods.map(function(totals) {
+    return entriesCollection(totals.period).doc(uid);
+  }));
+  entries.forEach(function(snap, index) {
+    // First score in this period: the entry is created and counted
+    periods[index].joining = !snap.exists;
+  });
+  return periods;
+}
+
+/**
+ * Adds points awarded at awardedAt to the open periods it falls in. A correction to a scan from a
+ * period that has already ended only changes the all-time total.
+ */
+
+function addToPeriods(periods, awardedAt, points, itemsRecycled) {
+  periods.forEach(function(totals) {
+    if (awardedAt >= totals.period.startsAt && awardedAt < totals.period.endsAt) {
+      totals.points += points;
+      totals.itemsRecycled += itemsRecycled;
+    }
+  });
+}
+
+function commitPeriods(tx, uid, name, periods) {
+  periods.forEach(function(totals) {
+    if (totals.points === 0 && totals.itemsRecycled === 0) return;
+    tx.set(entriesCollection(totals.period).doc(uid), {
+      uid: uid,
+      name: name || null,
+      points: FieldValue.increment(totals.points),
+      itemsRecycled: FieldValue.increment(totals.itemsRecycled),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+    if (totals.joining) {
+      tx.set(periodRef(totals.period), {
+        type: totals.period.type,
+        id: totals.period.id,
+        startsAt: Timestamp.fromDate(totals.period.startsAt),
+        endsAt: Timestamp.fromDate(totals.period.endsAt),
+        participants: FieldValue.increment(1)
+      }, { merge: true });
+    }
+  });
+}
+
+module.exports = {
+  PERIOD_TYPES: PERIOD_TYPES,
+  leaderboardPeriod: leaderboardPeriod,
+  periodRef: periodRef,
+  entriesCollection: entriesCollection,
+  openPeriods: openPeriods,
+  addToPeriods: addToPeriods,
+  commitPeriods: commitPeriods
+};
@@ -0,0 +1,78 @@
+var { describe, it } = require('node:test');
+var assert = require('node:assert/strict');
+
+var { leaderboardPeriod, openPeriods, addToPeriods } = require('./leaderboards');
+
+function weekId(iso) {
+  return leaderboardPeriod('weekly', new Date(iso)).id;
+}
+
+describe('leaderboardPeriod', function() {
+  it('runs weeks from Monday to Monday in UTC', function() {
+    assert.deepEqual(leaderboardPeriod('weekly', new Date('2026-10-18T23:59:59Z')), {
+      type: 'weekly',
+      id: '2026-W42',
+      startsAt: new Date('2026-10-12T00:00:00Z'),
+      endsAt: new Date('2026-10-19T00:00:00Z')
+    });
+    assert.equal(weekId('2026-10-19T00:00:00Z'), '2026-W43');
+  });
+
+  it('numbers weeks by the year their Thursday falls in', function() {
+    assert.equal(weekId('2026-01-01T12:00:00Z'), '2026-W01');
+    assert.equal(weekId('2027-01-01T12:00:00Z'), '2026-W53');
+    assert.equal(weekId('2024-12-30T12:00:00Z'), '2025-W01');
+    assert.equal(weekId('2021-01-03T12:00:00Z'), '2020-W53');
+  });
+
+  it('runs months in UTC', function() {
+    assert.deepEqual(leaderboardPeriod('monthly', new Date('2026-12-31T23:59:59Z')), {
+      type: 'monthly',
+      id: '2026-12',
+      startsAt: new Date('2026-12-01T00:00:00Z'),
+      endsAt: new Date('2027-01-01T00:00:00Z')
+    });
+    assert.equal(leaderboardPeriod('monthly', new Date('2027-01-01T00:00:00Z')).id, '2027-01');
+  });
+
+  it('rejects unknown period types', function() {
+    assert.throws(function() { leaderboardPeriod('daily', new Date()); }, /Unknown leaderboard period "daily"/);
+  });
+});
+
+// A transaction whose reads find the documents at `existing`
+function readingTx(existing) {
+  return {
+    getAll: async function() {
+      return Array.prototype.map.call(arguments, function(ref) {
+        return { exists: existing.indexOf(ref.path) !== -1 };
+      });
+    }
+  };
+}
+
+describe('openPeriods', function() {
+  it('marks the periods the user has no entry in yet as joining', async function() {
+    var tx = readingTx(['leaderboards/monthly/periods/2026-10/entries/alice']);
+    var [week, month] = await openPeriods(tx, 'alice', new Date('2026-10-01T09:00:00Z'));
+
+    assert.equal(week.period.id, '2026-W40');
+    assert.equal(week.joining, true);
+    assert.equal(month.joining, false);
+  });
+});
+
+describe('addToPeriods', function() {
+  it('only adds to the periods the award falls in', async function() {
+    var now = new Date('2026-10-01T09:00:00Z');
+    var [week, month] = await openPeriods(readingTx([]), 'alice', now);
+
+    addToPeriods([week, month], now, 10, 1);
+    // Monday of the same week, still September
+    addToPeriods([week, month], new Date('2026-09-28T09:00:00Z'), -4, 0);
+    addToPeriods([week, month], new Date('2026-09-20T09:00:00Z'), -3, 0);
+
+    assert.deepEqual([week.points, week.itemsRecycled], [6, 1]);
+    assert.deepEqual([month.points, month.itemsRecycled], [10, 1]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Points ledger (users/{uid}/ledger).
+ *
+ * Every change to a user's points is an append-only entry written in the same transaction as the
+ * change, with why it happened, the scan it came from, the scoring rules version and who caused it.
+ * users/{uid}.points and itemsRecycled are running totals of these entries;
+ * scripts/reconcile-points.js rebuilds them when they drift.
+ */
+
+var { admin, db } = require('./firebase');
+
+var FieldValue = admin.firestore.FieldValue;
+
+var REASONS = {
+  // Confident scan awarded as soon as it was recorded
+  SCAN_AWARDED: 'scan_awarded',
+  // Low-confidence scan the user confirmed
+  SCAN_CONFIRMED: 'scan_confirmed',
+  // Scan awarded after the user corrected the verdict
+  SCAN_CORRECTED: 'scan_corrected',
+  // Awarded scan re-scored after a "This is wrong" correction; never positive
+  SCAN_RESCORED: 'scan_rescored',
+  // Points a user had before the ledger existed, written once by the reconciliation script
+  OPENING_BALANCE: 'opening_balance'
+};
+
+function ledgerCollection(uid) {
+  return db.collection('users').doc(uid).collection('ledger');
+}
+
+/**
+ * The backend acting on its own, e.g. awarding a confident scan.
+ */
+
+function systemActor(id) {
+  return { type: 'system', id: id };
+}
+
+/**
+ * A signed-in user whose request changed their points.
+ */
+
+function userActor(uid) {
+  return { type: 'user', id: uid };
+}
+
+/**
+ * An operator running a script against the database.
+ */
+
+function adminActor(id) {
+  return { type: 'admin', id: id };
+}
+
+/**
+ * Builds a ledger entry. fields: { amount, itemsRecycled?, reason, actor, scanId?, rulesVersion?,
+ * dailyCapReached? }. Entries with amount 0 are still written, e.g. an award the daily cap
+ * trimmed to nothing, so support can see why nothing was added.
+ */
+
+function ledgerEntry(fields) {
+  var entry = {
+    amount: fields.amount,
+    itemsRecycled: fields.itemsRecycled || 0,
+    reason: fields.reason,
+    actor: fields.actor,
+    scanId: fields.scanId || null,
+    rulesVersion: fields.rulesVersion === undefined ? null : fields.rulesVersion,
+    createdAt: FieldValue.serverTimestamp()
+  };
+  if (fields.dailyCapReached) entry.dailyCapReached = true;
+  return entry;
+}
+
+/**
+ * Queues entries for uid in transaction tx. Entries are never updated or deleted.
+ */
+
+function appendLedger(tx, uid, entries) {
+  entries.forEach(function(entry) {
+    tx.create(ledgerCollection(uid).doc(), entry);
+  });
+}
+
+module.exports = {
+  REASONS: REASONS,
+  ledgerCollection: ledgerCollection,
+  systemActor: systemActor,
+  userActor: userActor,
+  adminActor: adminActor,
+  ledgerEntry: ledgerEntry,
+  appendLedger: appendLedger
+};
@@ -0,0 +1,65 @@
+var { describe, it, mock } = require('node:test');
+var assert = require('node:assert/strict');
+
+var { admin } = require('./firebase');
+var { REASONS, systemActor, userActor, adminActor, ledgerEntry, appendLedger } = require('./ledger');
+
+var FieldValue = admin.firestore.FieldValue;
+
+describe('ledgerEntry', function() {
+  it('fills in the optional fields', function() {
+    var entry = ledgerEntry({ amount: 10, reason: REASONS.SCAN_AWARDED, actor: systemActor('scan') });
+
+    assert.deepEqual(entry, {
+      amount: 10,
+      itemsRecycled: 0,
+      reason: REASONS.SCAN_AWARDED,
+      actor: { type: 'system', id: 'scan' },
+      scanId: null,
+      rulesVersion: null,
+      createdAt: FieldValue.serverTimestamp()
+    });
+  });
+
+  it('keeps rules version 0 and flags capped awards', function() {
+    var entry = ledgerEntry({
+      amount: 0,
+      itemsRecycled: 1,
+      reason: REASONS.SCAN_AWARDED,
+      actor: userActor('alice'),
+      scanId: 'scan-1',
+      rulesVersion: 0,
+      dailyCapReached: true
+    });
+
+    assert.equal(entry.itemsRecycled, 1);
+    assert.equal(entry.scanId, 'scan-1');
+    assert.equal(entry.rulesVersion, 0);
+    assert.equal(entry.dailyCapReached, true);
+  });
+});
+
+describe('actors', function() {
+  it('records who changed the points', function() {
+    assert.deepEqual(systemActor('scan'), { type: 'system', id: 'scan' });
+    assert.deepEqual(userActor('alice'), { type: 'user', id: 'alice' });
+    assert.deepEqual(adminActor('reconcile-points'), { type: 'admin', id: 'reconcile-points' });
+  });
+});
+
+describe('appendLedger', function() {
+  it('creates one new document per entry under the user', function() {
+    var tx = { create: mock.fn() };
+    var entries = [
+      ledgerEntry({ amount: 10, reason: REASONS.SCAN_AWARDED, actor: systemActor('scan') }),
+      ledgerEntry({ amount: -10, reason: REASONS.SCAN_RESCORED, actor: userActor('alice') })
+    ];
+    appendLedger(tx, 'alice', entries);
+
+    var calls = tx.create.mock.calls;
+    assert.equal(calls.length, 2);
+    assert.equal(calls[0].arguments[0].parent.path, 'users/alice/ledger');
+    assert.notEqual(calls[0].arguments[0].id, calls[1].arguments[0].id);
+    assert.equal(calls[1].arguments[1], entries[1]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Material taxonomy (data/materials.json).
+ *
+ * Classifier answers are free text, so each result is mapped onto a stable material id with
+ * canonical preparation steps, hazard flags and a recyclability default. History and stats
+ * group by materialId; instructions come from the reviewed taxonomy instead of the model.
+ * Bump "version" in the data file whenever ids, verdicts or steps change.
+ */
+
+var taxonomy = require('../data/materials.json');
+
+var FALLBACK_ID = 'other';
+
+var byId = new Map(taxonomy.materials.map(function(material) { return [material.id, material]; }));
+var categories = new Set(taxonomy.materials.map(function(material) { return material.category; }));
+
+// Whole-word match that also accepts plurals, so "pet" doesn't match "carpet" but "jars" matches "jar"
+function containsKeyword(text, keyword) {
+  var escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp('(^|[^a-z0-9])' + escaped + '(e?s)?($|[^a-z0-9])').test(text);
+}
+
+function findMaterial(id) {
+  return byId.get(id);
+}
+
+// Categories group materials for scoring bonuses and events, e.g. "metal" or "hazardous"
+function isCategory(name) {
+  return categories.has(name);
+}
+
+/**
+ * Uses the id the model picked when it is a real one, otherwise the entry with the longest
+ * keyword found in the item's name or material ("drinking glass" beats "glass").
+ */
+
+function matchMaterial(result) {
+  if (result.materialId && byId.has(result.materialId)) {
+    return byId.get(result.materialId);
+  }
+
+  var text = [result.object, result.material].filter(Boolean).join(' ').toLowerCase();
+  var best;
+  var bestLength = 0;
+  taxonomy.materials.forEach(function(material) {
+    material.keywords.forEach(function(keyword) {
+      if (keyword.length > bestLength && containsKeyword(text, keyword)) {
+        best = material;
+        bestLength = keyword.length;
+      }
+    });
+  });
+  return best || byId.get(FALLBACK_ID);
+}
+
+/**
+ * Returns the result with materialId, materialName, hazards and steps from the taxonomy.
+ * Materials with a fixed verdict override the model's recyclable flag; for ones that depend on
+ * the local program (recyclable: null) and the "other" bucket the model's answer stands.
+ */
+
+function applyTaxonomy(result) {
+  var material = matchMaterial(result);
+  var mapped = Object.assign({}, result, {
+    materialId: material.id,
+    materialName: material.name,
+    hazards: material.hazards,
+    taxonomyVersion: taxonomy.version
+  });
+
+  if (typeof material.recyclable === 'boolean' && material.recyclable !== result.recyclable) {
+    mapped.recyclable = material.recyclable;
+    // Keep the model's verdict so disagreements can be reviewed
+    mapped.classifierRecyclable = result.recyclable;
+  }
+  if (material.steps.length > 0) {
+    mapped.steps = material.steps;
+    mapped.instructions = material.steps.join(' ');
+  }
+  return mapped;
+}
+
+/**
+ * "id: name" lines for prompts that ask the model to pick a material id.
+ */
+
+function describeMaterialIds() {
+  return taxonomy.materials.map(function(material) {
+    return material.id + ': ' + material.name;
+  }).join('\n');
+}
+
+module.exports = {
+  TAXONOMY_VERSION: taxonomy.version,
+  findMaterial: findMaterial,
+  isCategory: isCategory,
+  matchMaterial: matchMaterial,
+  applyTaxonomy: applyTaxonomy,
+  describeMaterialIds: describeMaterialIds
+};
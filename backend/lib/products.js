@@ -0,0 +1,58 @@
+/**
+ * Barcode lookups against the product table in data/products.json.
+ *
+ * Each entry maps a product number (EAN-13 / EAN-8, UPC-A stored as EAN-13) to its packaging,
+ * its material id in data/materials.json and how to dispose of it. Product entries are specific
+ * to the item, so their verdict and instructions win over the material's defaults. Unknown products make the app fall back to photo classification.
+ */
+
+var products = require('../data/products.json').products;
+var { TAXONOMY_VERSION, findMaterial } = require('./materials');
+
+// GS1 Digital Link QR codes carry the product number after /01/
+var DIGITAL_LINK = /\/01\/(\d{8,14})(?:[/?#]|$)/;
+
+/**
+ * Mirrors normalizeBarcode in src/lib/barcode.ts so both sides agree on the lookup key.
+ */
+
+function normalizeBarcode(raw) {
+  if (typeof raw !== 'string') return null;
+  var value = raw.trim();
+  var link = value.match(DIGITAL_LINK);
+  var digits = link ? link[1] : value;
+  if (!/^\d{8,14}$/.test(digits)) return null;
+  if (digits.length === 8) return digits;
+
+  var gtin = digits.padStart(13, '0');
+  return gtin.length === 14 && gtin.startsWith('0') ? gtin.slice(1) : gtin;
+}
+
+/**
+ * Returns the product as a classifier-shaped result, or undefined when it isn't in the table.
+ */
+
+function findProduct(code) {
+  var product = products[code];
+  if (!product) return undefined;
+  var material = findMaterial(product.materialId) || findMaterial('other');
+
+  return {
+    object: product.name,
+    material: product.packaging,
+    materialId: material.id,
+    materialName: material.name,
+    hazards: material.hazards,
+    taxonomyVersion: TAXONOMY_VERSION,
+    recyclable: product.recyclable,
+    reason: product.packaging,
+    instructions: product.instructions,
+    // A table match is exact, so it never needs the "Are you sure?" step
+    confidence: 1
+  };
+}
+
+module.exports = {
+  normalizeBarcode: normalizeBarcode,
+  findProduct: findProduct
+};
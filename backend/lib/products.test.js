@@ -0,0 +1,49 @@
+var { describe, it } = require('node:test');
+var assert = require('node:assert/strict');
+
+var { normalizeBarcode, findProduct } = require('./products');
+
+describe('normalizeBarcode', function() {
+  it('keeps EAN-13 and EAN-8 codes as they are', function() {
+    assert.equal(normalizeBarcode('5449000000996'), '5449000000996');
+    assert.equal(normalizeBarcode('96385074'), '96385074');
+  });
+
+  it('stores UPC-A and GTIN-14 codes as EAN-13', function() {
+    assert.equal(normalizeBarcode('036000291452'), '0036000291452');
+    assert.equal(normalizeBarcode('05449000000996'), '5449000000996');
+    assert.equal(normalizeBarcode('15449000000993'), '15449000000993');
+  });
+
+  it('reads the product number from a GS1 Digital Link', function() {
+    assert.equal(normalizeBarcode('https://id.gs1.org/01/05449000000996'), '5449000000996');
+    assert.equal(normalizeBarcode('https://example.com/01/05449000000996/10/ABC123?x=1'), '5449000000996');
+  });
+
+  it('trims whitespace around the code', function() {
+    assert.equal(normalizeBarcode(' 5449000000996\n'), '5449000000996');
+  });
+
+  it('rejects anything that is not a product number', function() {
+    assert.equal(normalizeBarcode('1234567'), null);
+    assert.equal(normalizeBarcode('123456789012345'), null);
+    assert.equal(normalizeBarcode('54490000OO996'), null);
+    assert.equal(normalizeBarcode('https://example.com/product/5449000000996'), null);
+    assert.equal(normalizeBarcode(5449000000996), null);
+    assert.equal(normalizeBarcode(undefined), null);
+  });
+});
+
+describe('findProduct', function() {
+  it('returns a known product as a confident classifier result', function() {
+    var product = findProduct('5449000000996');
+    assert.equal(product.object, 'Coca-Cola 330ml can');
+    assert.equal(product.materialId, 'aluminum-can');
+    assert.equal(product.recyclable, true);
+    assert.equal(product.confidence, 1);
+  });
+
+  it('returns undefined for products that are not in the table', function() {
+    assert.equal(findProduct('0000000000000'), undefined);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Versioned prompt templates (prompts/*.txt).
+ *
+ * Each file is one immutable prompt version, named after its id (e.g. scan-v2.txt). prompts.json
+ * weights the versions in use for each kind of request; users are bucketed by uid so an A/B split
+ * is sticky. Templates use {{variable}} placeholders: materials (the taxonomy ids), language and
+ * region. Edit a prompt by adding a new version, never by changing one that scan records point to.
+ */
+
+var fs = require('fs');
+var path = require('path');
+var crypto = require('crypto');
+var { describeMaterialIds } = require('./materials');
+
+var PROMPTS_DIR = path.join(__dirname, '..', 'prompts');
+var KINDS = ['single', 'multi', 'repair'];
+var DEFAULT_LANGUAGE = 'en';
+
+var templates = new Map(fs.readdirSync(PROMPTS_DIR).filter(function(file) {
+  return file.endsWith('.txt');
+}).map(function(file) {
+  return [path.basename(file, '.txt'), fs.readFileSync(path.join(PROMPTS_DIR, file), 'utf8')];
+}));
+
+var weights = require('../prompts/prompts.json');
+
+KINDS.forEach(function(kind) {
+  var versions = Object.keys(weights[kind] || {});
+  if (versions.length === 0) {
+    throw new Error('prompts.json needs at least one "' + kind + '" prompt');
+  }
+  versions.forEach(function(version) {
+    if (!templates.has(version)) {
+      throw new Error('prompts.json refers to missing template prompts/' + version + '.txt');
+    }
+  });
+});
+
+var languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * Returns a BCP 47 tag like "en" or "pt-BR", falling back to English for anything malformed.
+ */
+
+function normalizeLanguage(value) {
+  if (typeof value !== 'string') return DEFAULT_LANGUAGE;
+  try {
+    return Intl.getCanonicalLocales(value.trim())[0] || DEFAULT_LANGUAGE;
+  } catch (err) {
+    return DEFAULT_LANGUAGE;
+  }
+}
+
+/**
+ * Picks the prompt version for a request. The same uid always lands in the same bucket.
+ */
+
+function selectPromptVersion(kind, uid) {
+  var options = weights[kind];
+  var versions = Object.keys(options);
+  var total = versions.reduce(function(sum, version) { return sum + options[version]; }, 0);
+  var digest = crypto.createHash('sha256').update(kind + ':' + (uid || '')).digest();
+  var point = digest.readUInt32BE(0) % total;
+
+  for (var version of versions) {
+    point -= options[version];
+    if (point < 0) return version;
+  }
+  return versions[versions.length - 1];
+}
+
+function regionSentence(region) {
+  return region
+    ? 'The user lives in ' + region.name + '. Base the recyclable verdict and instructions on that local program where you know it.'
+    : 'The user\'s location is unknown. Base the recyclable verdict on a typical curbside program.';
+}
+
+/**
+ * Renders a prompt for kind ("single", "multi" or "repair"). context: { uid, language, region,
+ * promptVersion } where promptVersion forces a template (evaluation runs). Returns { version, text }.
+ */
+
+function renderPrompt(kind, context) {
+  context = context || {};
+  var version = context.promptVersion || selectPromptVersion(kind, context.uid);
+  var template = templates.get(version);
+  if (!template) {
+    throw new Error('Unknown prompt version "' + version + '"');
+  }
+
+  var variables = {
+    materials: describeMaterialIds(),
+    language: languageNames.of(normalizeLanguage(context.language)),
+    region: regionSentence(context.region)
+  };
+  var text = template.replace(/\{\{(\w+)\}\}/g, function(match, name) {
+    if (!(name in variables)) {
+      throw new Error('Prompt ' + version + ' uses unknown variable {{' + name + '}}');
+    }
+    return variables[name];
+  });
+
+  return { version: version, text: text };
+}
+
+module.exports = {
+  normalizeLanguage: normalizeLanguage,
+  selectPromptVersion: selectPromptVersion,
+  renderPrompt: renderPrompt
+};
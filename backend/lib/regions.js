@@ -0,0 +1,128 @@
+/**
+ * Local recyclability rules (data/regions/*.json).
+ *
+ * What counts as recyclable depends on the municipal program, so each region file overrides the
+ * taxonomy verdict for the materials its program treats differently. The region comes from the
+ * user's setting (users/{uid}/settings/preferences.region) or, failing that, from the location
+ * the app sent. Without either, the taxonomy and classifier verdict stand.
+ */
+
+var fs = require('fs');
+var path = require('path');
+var createError = require('http-errors');
+var { db } = require('./firebase');
+var { findMaterial } = require('./materials');
+
+var REGIONS_DIR = path.join(__dirname, '..', 'data', 'regions');
+
+/**
+ * Reads every region file at startup. Mistakes in a file (unknown material id, missing verdict)
+ * stop the server instead of silently mislabeling items.
+ */
+
+function loadRegions() {
+  return fs.readdirSync(REGIONS_DIR).filter(function(file) {
+    return file.endsWith('.json');
+  }).map(function(file) {
+    var region = JSON.parse(fs.readFileSync(path.join(REGIONS_DIR, file), 'utf8'));
+    if (region.id + '.json' !== file) {
+      throw new Error('Region file ' + file + ' must be named after its id "' + region.id + '"');
+    }
+    region.rules.forEach(function(rule) {
+      if (!findMaterial(rule.materialId)) {
+        throw new Error('Region ' + region.id + ' has a rule for unknown material "' + rule.materialId + '"');
+      }
+      if (typeof rule.recyclable !== 'boolean' || !rule.note) {
+        throw new Error('Region ' + region.id + ' rule for ' + rule.materialId + ' needs a recyclable true/false and a note');
+      }
+    });
+    return region;
+  });
+}
+
+var regions = loadRegions();
+var byId = new Map(regions.map(function(region) { return [region.id, region]; }));
+
+function findRegion(id) {
+  return byId.get(id);
+}
+
+function regionAt(lat, lon) {
+  return regions.find(function(region) {
+    var bounds = region.bounds;
+    return lat >= bounds.south && lat <= bounds.north && lon >= bounds.west && lon <= bounds.east;
+  });
+}
+
+/**
+ * { id, name } for every region, sorted by name for the settings picker.
+ */
+
+function listRegions() {
+  return regions.map(function(region) {
+    return { id: region.id, name: region.name };
+  }).sort(function(a, b) {
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Reads an optional { lat, lon } sent by the app. Returns undefined when there is none.
+ */
+
+function readLocation(value) {
+  if (value === undefined || value === null) return undefined;
+
+  var lat = Number(value.lat);
+  var lon = Number(value.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw createError(400, 'A location needs a numeric "lat" and "lon"');
+  }
+  return { lat: lat, lon: lon };
+}
+
+/**
+ * The user's chosen region wins over their location. location: { lat, lon } or undefined.
+ */
+
+async function resolveRegion(uid, location) {
+  var snap = await db.collection('users').doc(uid).collection('settings').doc('preferences').get();
+  var chosen = snap.exists ? findRegion(snap.get('region')) : undefined;
+  if (chosen) return chosen;
+  return location ? regionAt(location.lat, location.lon) : undefined;
+}
+
+/**
+ * Returns the result with the region's rule for its material applied, described in regionRule so
+ * the app can say which local rule decided the verdict. Run after applyTaxonomy, which sets materialId.
+ */
+
+function applyRegionRules(result, region) {
+  if (!region) return result;
+
+  var mapped = Object.assign({}, result, { regionId: region.id, regionVersion: region.version });
+  var rule = region.rules.find(function(candidate) {
+    return candidate.materialId === result.materialId;
+  });
+  if (!rule) return mapped;
+
+  mapped.recyclable = rule.recyclable;
+  mapped.regionRule = { regionId: region.id, regionName: region.name, note: rule.note };
+  if (rule.recyclable !== result.recyclable && result.classifierRecyclable === undefined) {
+    mapped.classifierRecyclable = result.recyclable;
+  }
+  if (rule.steps) {
+    mapped.steps = rule.steps;
+    mapped.instructions = rule.steps.join(' ');
+  }
+  return mapped;
+}
+
+module.exports = {
+  findRegion: findRegion,
+  regionAt: regionAt,
+  listRegions: listRegions,
+  readLocation: readLocation,
+  resolveRegion: resolveRegion,
+  applyRegionRules: applyRegionRules
+};
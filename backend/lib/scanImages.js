@@ -0,0 +1,89 @@
+/**
+ * Scan photos in Cloud Storage.
+ *
+ * Each analyzed photo is stored once under scans/{uid}/{imageId}/ as full.jpg plus a small
+ * thumb.jpg for the history list; every scan record from that photo points at it by imageId.
+ * Clients never read the bucket directly (storage.rules denies everything). They ask the API
+ * for a short-lived URL, which is only handed out for the caller's own scans.
+ */
+
+var crypto = require('crypto');
+var sharp = require('sharp');
+var { bucket } = require('./firebase');
+
+var FULL_MAX_SIZE = 1600;
+var THUMB_SIZE = 160;
+var SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+
+// Days a photo is kept before scripts/purge-scan-images.js deletes it
+var RETENTION_DAYS = Number(process.env.SCAN_IMAGE_RETENTION_DAYS) || 30;
+
+var SIZES = ['thumb', 'full'];
+
+function imagePath(uid, imageId, size) {
+  return 'scans/' + uid + '/' + imageId + '/' + size + '.jpg';
+}
+
+/**
+ * Re-encodes the photo as JPEG (dropping EXIF, including location) and stores it with a thumbnail.
+ * Returns the imageId the scan records should reference.
+ */
+
+async function saveScanImage(uid, buffer) {
+  var imageId = crypto.randomUUID();
+  var image = sharp(buffer).rotate();
+
+  var encoded = {
+    thumb: image.clone()
+      .resize(THUMB_SIZE, THUMB_SIZE, { fit: 'cover' })
+      .jpeg({ quality: 70 }),
+    full: image.clone()
+      .resize(FULL_MAX_SIZE, FULL_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+  };
+
+  await Promise.all(SIZES.map(async function(size) {
+    var data = await encoded[size].toBuffer();
+    return bucket.file(imagePath(uid, imageId, size)).save(data, {
+      resumable: false,
+      contentType: 'image/jpeg',
+      metadata: {
+        cacheControl: 'private, max-age=3600',
+        metadata: { uid: uid, imageId: imageId }
+      }
+    });
+  }));
+
+  return imageId;
+}
+
+/**
+ * Returns { url, expiresAt } for one size of a stored photo. The Storage emulator can't sign
+ * URLs, so there the file is served through its download-token endpoint instead.
+ */
+
+async function getScanImageUrl(uid, imageId, size) {
+  var file = bucket.file(imagePath(uid, imageId, size));
+  var expiresAt = Date.now() + SIGNED_URL_TTL_MS;
+
+  var emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  if (emulatorHost) {
+    var token = crypto.randomUUID();
+    await file.setMetadata({ metadata: { firebaseStorageDownloadTokens: token } });
+    var origin = emulatorHost.startsWith('http') ? emulatorHost : 'http://' + emulatorHost;
+    return {
+      url: origin + '/v0/b/' + bucket.name + '/o/' + encodeURIComponent(file.name) + '?alt=media&token=' + token,
+      expiresAt: expiresAt
+    };
+  }
+
+  var signed = await file.getSignedUrl({ action: 'read', expires: expiresAt });
+  return { url: signed[0], expiresAt: expiresAt };
+}
+
+module.exports = {
+  RETENTION_DAYS: RETENTION_DAYS,
+  SIZES: SIZES,
+  saveScanImage: saveScanImage,
+  getScanImageUrl: getScanImageUrl
+};
@@ -0,0 +1,479 @@
+/**
+ * Scan records and the only code path that awards points.
+ *
+ * Every analysis is written to users/{uid}/scans by the server with the classifier's
+ * verdict, so points are always tied to a record the client could not have forged.
+ * Confident results are awarded straight away; the rest wait for the user to confirm
+ * or correct them through awardScan. Any scan can later be disputed through correctScan.
+ *
+ * Photos that look like one the user scanned recently are recorded as duplicates and
+ * earn nothing. Point values, streaks and the daily cap come from the scoring rules (lib/scoring.js).
+ * Every change to a user's points is also written to their ledger (lib/ledger.js) and added to
+ * their weekly and monthly leaderboard entries (lib/leaderboards.js).
+ */
+
+var createError = require('http-errors');
+var { admin, db } = require('./firebase');
+var { loadScoringRules, scoreScan, pointsDay, streakDaysOn, capPoints } = require('./scoring');
+var { REASONS, ledgerEntry, appendLedger, systemActor, userActor } = require('./ledger');
+var { openPeriods, addToPeriods, commitPeriods } = require('./leaderboards');
+var { hammingDistance } = require('./imageHash');
+var { TAXONOMY_VERSION, matchMaterial } = require('./materials');
+
+var FieldValue = admin.firestore.FieldValue;
+var Timestamp = admin.firestore.Timestamp;
+
+var LOW_CONFIDENCE_THRESHOLD = Number(process.env.LOW_CONFIDENCE_THRESHOLD) || 0.7;
+var DUPLICATE_WINDOW_HOURS = Number(process.env.DUPLICATE_WINDOW_HOURS) || 24;
+// Out of 64 bits; re-encoded or slightly reframed copies of a photo are usually within a few bits
+var DUPLICATE_MAX_DISTANCE = Number(process.env.DUPLICATE_MAX_DISTANCE) || 6;
+// Two identical cans are two items, so a barcode only counts as a duplicate when it is read again
+// within seconds (the camera seeing the same item twice) or past a per-product limit for the window
+var BARCODE_REPEAT_SECONDS = Number(process.env.BARCODE_REPEAT_SECONDS) || 30;
+var BARCODE_DAILY_LIMIT = Number(process.env.BARCODE_DAILY_LIMIT) || 10;
+
+var STATUS_AWARDED = 'awarded';
+var STATUS_NEEDS_CONFIRMATION = 'needs_confirmation';
+var STATUS_DUPLICATE = 'duplicate';
+
+function userRef(uid) {
+  return db.collection('users').doc(uid);
+}
+
+// Scoring state only the backend reads, kept off the public profile
+function privateScoringRef(uid) {
+  return userRef(uid).collection('private').doc('scoring');
+}
+
+function scansCollection(uid) {
+  return userRef(uid).collection('scans');
+}
+
+/**
+ * Reads what the user has already earned today, their streak, the materials they have scanned
+ * before and their name. Firestore transactions need every read before the first write, so this
+ * runs at the start of the transaction.
+ */
+
+async function openCredit(tx, uid, rules) {
+  var profile = await tx.get(userRef(uid));
+  var snap = await tx.get(privateScoringRef(uid));
+  var scoring = snap.exists ? snap.data() : {};
+  var now = new Date();
+  var day = pointsDay(now);
+
+  return {
+    uid: uid,
+    // Copied to the leaderboard entries
+    name: profile.get('name'),
+    rules: rules,
+    now: now,
+    day: day,
+    earnedToday: scoring.pointsDay === day ? scoring.pointsToday || 0 : 0,
+    // Days in a row with an awarded scan, counting today
+    streakDays: streakDaysOn(scoring, now),
+    discovered: new Set(scoring.discoveredMaterials || []),
+    newlyDiscovered: [],
+    // Ledger entries written with the credit
+    entries: [],
+    // The same changes, for this week's and this month's leaderboards
+    periods: await openPeriods(tx, uid, now),
+    awarded: 0,
+    points: 0,
+    itemsRecycled: 0
+  };
+}
+
+/**
+ * Adds one verdict { recyclable, materialId } to the credit, trimmed to what is left of the
+ * daily cap, and returns the fields that mark the scan as awarded. source: { scanId, reason, actor }
+ * for the ledger entry.
+ */
+
+function creditScan(credit, verdict, source) {
+  var score = scoreScan(credit.rules, verdict, credit);
+  var points = capPoints(credit.rules, credit.earnedToday, score.points);
+
+  credit.awarded += 1;
+  credit.earnedToday += points;
+  credit.points += points;
+  // Only recyclable items count towards itemsRecycled
+  if (verdict.recyclable) {
+    credit.itemsRecycled += 1;
+  }
+  addToPeriods(credit.periods, credit.now, points, verdict.recyclable ? 1 : 0);
+  if (score.breakdown.discoveryBonus > 0) {
+    credit.discovered.add(score.breakdown.materialId);
+    credit.newlyDiscovered.push(score.breakdown.materialId);
+  }
+  credit.entries.push(ledgerEntry({
+    amount: points,
+    itemsRecycled: verdict.recyclable ? 1 : 0,
+    reason: source.reason,
+    actor: source.actor,
+    scanId: source.scanId,
+    rulesVersion: credit.rules.version,
+    dailyCapReached: points < score.points
+  }));
+
+  var fields = {
+    status: STATUS_AWARDED,
+    pointsEarned: points,
+    scoring: score.breakdown,
+    awardedAt: FieldValue.serverTimestamp()
+  };
+  if (points < score.points) {
+    fields.dailyCapReached = true;
+  }
+  return fields;
+}
+
+function commitCredit(tx, credit) {
+  appendLedger(tx, credit.uid, credit.entries);
+  commitPeriods(tx, credit.uid, credit.name, credit.periods);
+  if (credit.awarded === 0 && credit.points === 0 && credit.itemsRecycled === 0) return;
+
+  var userUpdate = { points: FieldValue.increment(credit.points) };
+  if (credit.itemsRecycled !== 0) {
+    userUpdate.itemsRecycled = FieldValue.increment(credit.itemsRecycled);
+  }
+  tx.set(userRef(credit.uid), userUpdate, { merge: true });
+
+  var scoringUpdate = { pointsDay: credit.day, pointsToday: credit.earnedToday };
+  // Re-scoring a correction isn't a new award, so it leaves the streak alone
+  if (credit.awarded > 0) {
+    scoringUpdate.streakDays = credit.streakDays;
+    scoringUpdate.streakDay = credit.day;
+  }
+  if (credit.newlyDiscovered.length > 0) {
+    scoringUpdate.discoveredMaterials = FieldValue.arrayUnion.apply(null, credit.newlyDiscovered);
+  }
+  tx.set(privateScoringRef(credit.uid), scoringUpdate, { merge: true });
+}
+
+/**
+ * Finds a scan within the duplicate window whose photo hashes close to meta.imageHash. For a barcode,
+ * finds a scan of the same product from the last BARCODE_REPEAT_SECONDS, or the latest one once
+ * BARCODE_DAILY_LIMIT scans of it within the window already counted.
+ */
+
+async function findDuplicate(tx, uid, meta) {
+  if (!meta.imageHash && !meta.barcode) return undefined;
+
+  var since = Timestamp.fromMillis(Date.now() - DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000);
+  var recent = await tx.get(scansCollection(uid).where('createdAt', '>=', since).select('imageHash', 'barcode', 'status', 'createdAt'));
+
+  if (meta.barcode) {
+    var sameProduct = recent.docs
+      .filter(function(snap) {
+        return snap.get('barcode') === meta.barcode && snap.get('status') !== STATUS_DUPLICATE;
+      })
+      .sort(function(a, b) { return b.get('createdAt').toMillis() - a.get('createdAt').toMillis(); });
+    var latest = sameProduct[0];
+    if (latest && Date.now() - latest.get('createdAt').toMillis() < BARCODE_REPEAT_SECONDS * 1000) return latest;
+    return sameProduct.length >= BARCODE_DAILY_LIMIT ? latest : undefined;
+  }
+
+  return recent.docs.find(function(snap) {
+    var hash = snap.get('imageHash');
+    return typeof hash === 'string' && hammingDistance(hash, meta.imageHash) <= DUPLICATE_MAX_DISTANCE;
+  });
+}
+
+/**
+ * What the classifier originally said. Kept through repeated corrections so the dataset
+ * always pairs the model's answer with the user's latest label.
+ */
+
+function classifierVerdict(scan) {
+  return scan.classifierVerdict || {
+    material: scan.material,
+    materialId: scan.materialId || null,
+    recyclable: scan.recyclable
+  };
+}
+
+/**
+ * Scoring context for re-scoring an awarded scan: the streak and events that applied when it was
+ * awarded. A discovery bonus the scan already earned is kept, but a correction never adds one.
+ */
+
+function awardedContext(scan) {
+  var awarded = scan.scoring || {};
+  return {
+    streakDays: awarded.streakDays,
+    discovered: awarded.discoveryBonus ? new Set() : undefined,
+    now: scan.awardedAt ? scan.awardedAt.toDate() : undefined
+  };
+}
+
+/**
+ * The verdict a corrected scan is scored by, both sides scored with the same context. A correction
+ * can never earn more than the classifier's own verdict would have, so relabeling everything as
+ * recyclable (or as a bonus material) doesn't pay.
+ */
+
+function scoredVerdict(rules, context, scan, correction) {
+  var original = classifierVerdict(scan);
+  var corrected = {
+    recyclable: correction.recyclable,
+    materialId: matchMaterial({ object: correction.material }).id
+  };
+  var correctedPoints = scoreScan(rules, corrected, context).points;
+  return correctedPoints > scoreScan(rules, original, context).points ? original : corrected;
+}
+
+// Whether the award counted the scan towards itemsRecycled (creditScan counts the scored verdict)
+function countedAsRecycled(scan) {
+  if (scan.scoring) return scan.scoring.recyclable;
+  return scan.classifierVerdict ? scan.recyclable && scan.classifierVerdict.recyclable : scan.recyclable;
+}
+
+/**
+ * Record fields for a user's correction: the corrected verdict replaces the classifier's in history,
+ * and both are kept for review and export (scripts/export-corrections.js).
+ */
+
+function correctionFields(scan, correction) {
+  var material = matchMaterial({ object: correction.material });
+  return {
+    material: correction.material,
+    materialId: material.id,
+    materialName: material.name,
+    taxonomyVersion: TAXONOMY_VERSION,
+    recyclable: correction.recyclable,
+    classifierVerdict: classifierVerdict(scan),
+    correction: {
+      material: correction.material,
+      materialId: material.id,
+      recyclable: correction.recyclable,
+      correctedAt: FieldValue.serverTimestamp()
+    },
+    // The rule and instructions were for what the classifier thought it saw
+    regionRule: FieldValue.delete(),
+    instructions: correction.recyclable === scan.recyclable ? scan.instructions : ''
+  };
+}
+
+/**
+ * Re-scores an already awarded scan after a correction (see awardedContext). The new amount is
+ * what the scored verdict is worth but never more than the scan already earned, so disputes can
+ * only take points away.
+ */
+
+function recreditScan(credit, scan, verdict, source) {
+  var earned = scan.pointsEarned || 0;
+  var score = scoreScan(credit.rules, verdict, awardedContext(scan));
+  var points = Math.min(score.points, earned);
+  var adjustment = points - earned;
+
+  credit.points += adjustment;
+  // Give back room under today's cap only if the points came out of today's
+  if (scan.awardedAt && pointsDay(scan.awardedAt.toDate()) === credit.day) {
+    credit.earnedToday = Math.max(credit.earnedToday + adjustment, 0);
+  }
+  var itemsRecycled = (verdict.recyclable ? 1 : 0) - (countedAsRecycled(scan) ? 1 : 0);
+  credit.itemsRecycled += itemsRecycled;
+  if (scan.awardedAt) {
+    addToPeriods(credit.periods, scan.awardedAt.toDate(), adjustment, itemsRecycled);
+  }
+  credit.entries.push(ledgerEntry({
+    amount: adjustment,
+    itemsRecycled: itemsRecycled,
+    reason: REASONS.SCAN_RESCORED,
+    actor: source.actor,
+    scanId: source.scanId,
+    rulesVersion: credit.rules.version
+  }));
+
+  return { pointsEarned: points, pointsAdjustment: adjustment, scoring: score.breakdown };
+}
+
+function toRecordedScan(scanId, record) {
+  var scan = { scanId: scanId, status: record.status, pointsEarned: record.pointsEarned };
+  if (record.dailyCapReached) scan.dailyCapReached = true;
+  // How the points were worked out, so the app can mention bonuses
+  if (record.scoring) scan.scoring = record.scoring;
+  return scan;
+}
+
+/**
+ * Writes one scan record per classifier result and awards the confident ones.
+ * meta: { provider, mode, imageId?, imageHash?, barcode?, batchId? }. All results come from the
+ * same photo (or barcode), so they are either all duplicates or none are. Returns [{ scanId, status, pointsEarned }] in input order.
+ */
+
+async function recordScans(uid, results, meta) {
+  var rules = await loadScoringRules();
+
+  return db.runTransaction(async function(tx) {
+    var duplicateOf = await findDuplicate(tx, uid, meta);
+    var credit = await openCredit(tx, uid, rules);
+
+    var recorded = results.map(function(result, index) {
+      var scanRef = scansCollection(uid).doc();
+      var record = {
+        material: result.object,
+        recyclable: result.recyclable,
+        instructions: result.instructions || result.reason || '',
+        confidence: result.confidence,
+        classifier: meta.provider,
+        mode: meta.mode,
+        status: STATUS_NEEDS_CONFIRMATION,
+        pointsEarned: 0,
+        imageId: meta.imageId || null,
+        imageHash: meta.imageHash || null,
+        createdAt: FieldValue.serverTimestamp()
+      };
+      if (meta.batchId) {
+        record.batchId = meta.batchId;
+        record.itemIndex = index;
+        record.box = result.box;
+      }
+      if (meta.barcode) record.barcode = meta.barcode;
+      if (result.material) record.materialType = result.material;
+      if (result.materialId) {
+        record.materialId = result.materialId;
+        record.materialName = result.materialName;
+        record.taxonomyVersion = result.taxonomyVersion;
+      }
+      if (result.classifierRecyclable !== undefined) record.classifierRecyclable = result.classifierRecyclable;
+      // Which prompt template produced the answer, to trace odd results and compare A/B variants
+      if (result.promptVersion) record.promptVersion = result.promptVersion;
+      if (result.regionId) {
+        record.regionId = result.regionId;
+        record.regionVersion = result.regionVersion;
+      }
+      if (result.regionRule) record.regionRule = result.regionRule.note;
+
+      if (duplicateOf) {
+        record.status = STATUS_DUPLICATE;
+        record.duplicateOf = duplicateOf.id;
+      } else if (result.confidence >= LOW_CONFIDENCE_THRESHOLD) {
+        Object.assign(record, creditScan(credit, result, {
+          scanId: scanRef.id,
+          reason: REASONS.SCAN_AWARDED,
+          actor: systemActor('auto-award')
+        }), { confirmation: 'auto' });
+      }
+
+      tx.create(scanRef, record);
+      return toRecordedScan(scanRef.id, record);
+    });
+
+    commitCredit(tx, credit);
+    return recorded;
+  });
+}
+
+/**
+ * Awards a scan that was waiting for the user. correction: { material, recyclable } when the user
+ * fixed the verdict. A correction can never earn more than the classifier's own verdict would have,
+ * so relabeling everything as recyclable doesn't pay. Awarding twice is a no-op.
+ */
+
+async function awardScan(uid, scanId, correction) {
+  var scanRef = scansCollection(uid).doc(scanId);
+  var rules = await loadScoringRules();
+
+  return db.runTransaction(async function(tx) {
+    var snap = await tx.get(scanRef);
+    if (!snap.exists) {
+      throw createError(404, 'Scan not found');
+    }
+
+    var scan = snap.data();
+    if (scan.status === STATUS_AWARDED) {
+      return Object.assign(toRecordedScan(scanId, scan), { alreadyAwarded: true });
+    }
+    if (scan.status === STATUS_DUPLICATE) {
+      throw createError(409, 'This photo was already scanned recently and can\'t earn points again');
+    }
+
+    var credit = await openCredit(tx, uid, rules);
+    var source = { scanId: scanId, actor: userActor(uid) };
+    var update;
+    if (!correction) {
+      update = Object.assign(
+        creditScan(credit, scan, Object.assign({ reason: REASONS.SCAN_CONFIRMED }, source)),
+        { confirmation: 'confirmed' }
+      );
+    } else {
+      update = Object.assign(
+        creditScan(credit, scoredVerdict(rules, credit, scan, correction), Object.assign({ reason: REASONS.SCAN_CORRECTED }, source)),
+        correctionFields(scan, correction),
+        { confirmation: 'corrected' }
+      );
+    }
+
+    tx.update(scanRef, update);
+    commitCredit(tx, credit);
+    return toRecordedScan(scanId, update);
+  });
+}
+
+/**
+ * Applies a "This is wrong" correction to any of the user's scans. Scans waiting for the user are
+ * awarded as if corrected through awardScan; awarded ones are re-scored, which can only lower their
+ * points; duplicates keep earning nothing but still record the label. The result includes
+ * pointsAdjustment, the change to the user's points.
+ */
+
+async function correctScan(uid, scanId, correction) {
+  var scanRef = scansCollection(uid).doc(scanId);
+  var rules = await loadScoringRules();
+
+  return db.runTransaction(async function(tx) {
+    var snap = await tx.get(scanRef);
+    if (!snap.exists) {
+      throw createError(404, 'Scan not found');
+    }
+
+    var scan = snap.data();
+    var credit = await openCredit(tx, uid, rules);
+    var context = scan.status === STATUS_AWARDED ? awardedContext(scan) : credit;
+    var verdict = scoredVerdict(rules, context, scan, correction);
+    var update = correctionFields(scan, correction);
+    var adjustment = 0;
+
+    var source = { scanId: scanId, actor: userActor(uid) };
+
+    if (scan.status === STATUS_NEEDS_CONFIRMATION) {
+      Object.assign(
+        update,
+        creditScan(credit, verdict, Object.assign({ reason: REASONS.SCAN_CORRECTED }, source)),
+        { confirmation: 'corrected' }
+      );
+      adjustment = update.pointsEarned;
+    } else if (scan.status === STATUS_AWARDED) {
+      var recredit = recreditScan(credit, scan, verdict, source);
+      update.pointsEarned = recredit.pointsEarned;
+      update.scoring = recredit.scoring;
+      adjustment = recredit.pointsAdjustment;
+    }
+
+    tx.update(scanRef, update);
+    commitCredit(tx, credit);
+    return Object.assign(toRecordedScan(scanId, Object.assign({}, scan, update)), { pointsAdjustment: adjustment });
+  });
+}
+
+/**
+ * Reads one of the user's scan records, or throws a 404.
+ */
+
+async function getScan(uid, scanId) {
+  var snap = await scansCollection(uid).doc(scanId).get();
+  if (!snap.exists) {
+    throw createError(404, 'Scan not found');
+  }
+  return snap.data();
+}
+
+module.exports = {
+  LOW_CONFIDENCE_THRESHOLD: LOW_CONFIDENCE_THRESHOLD,
+  recordScans: recordScans,
+  awardScan: awardScan,
+  correctScan: correctScan,
+  getScan: getScan
+};
@@ -0,0 +1,411 @@
+var { describe, it, beforeEach, afterEach, mock } = require('node:test');
+var assert = require('node:assert/strict');
+
+var { admin, db } = require('./firebase');
+var scoring = require('./scoring');
+var defaultRules = require('../data/scoring.json');
+
+// Base points and the daily cap only, so the amounts below stay easy to follow
+var PLAIN_RULES = { version: 1, points: { recyclable: 10, notRecyclable: 5 }, dailyCap: 200 };
+
+// The rules the test at hand scores by, in place of reading config/scoring
+var rules;
+scoring.loadScoringRules = async function() { return rules; };
+
+var { recordScans, awardScan, correctScan } = require('./scans');
+
+var FieldValue = admin.firestore.FieldValue;
+var Timestamp = admin.firestore.Timestamp;
+
+var UID = 'alice';
+var NOW = Date.UTC(2025, 2, 14, 12);
+
+var PROFILE = 'users/' + UID;
+var SCORING = 'users/' + UID + '/private/scoring';
+
+// Documents by path, standing in for Firestore while the transactions run
+var store;
+
+function snapshot(path) {
+  var data = store.get(path);
+  return {
+    id: path.split('/').pop(),
+    ref: db.doc(path),
+    exists: data !== undefined,
+    data: function() { return data && Object.assign({}, data); },
+    get: function(field) { return data && data[field]; }
+  };
+}
+
+// Queries only ever look at the user's own scans, so every scan stands in for the result
+function queryScans() {
+  var docs = Array.from(store.keys())
+    .filter(function(path) { return /^users\/[^/]+\/scans\/[^/]+$/.test(path); })
+    .map(snapshot);
+  return { docs: docs, empty: docs.length === 0, size: docs.length };
+}
+
+function resolveField(current, value) {
+  if (!(value instanceof FieldValue)) return value;
+  if (value.isEqual(FieldValue.serverTimestamp())) return Timestamp.fromMillis(Date.now());
+  if (value.isEqual(FieldValue.delete())) return undefined;
+  if ('operand' in value) return (current || 0) + value.operand;
+  if ('elements' in value) return Array.from(new Set((current || []).concat(value.elements)));
+  throw new Error('Unsupported field value: ' + value.constructor.name);
+}
+
+function writeDoc(path, data, merge) {
+  var doc = merge ? Object.assign({}, store.get(path)) : {};
+  Object.keys(data).forEach(function(field) {
+    var value = resolveField(doc[field], data[field]);
+    if (value === undefined) delete doc[field];
+    else doc[field] = value;
+  });
+  store.set(path, doc);
+}
+
+/**
+ * Runs a transaction against the store. Writes land only once the callback resolves, and a read
+ * after the first write fails the same way Firestore does.
+ */
+
+async function runTransaction(callback) {
+  var writes = [];
+  function read(target) {
+    if (writes.length) throw new Error('Firestore transactions require all reads to be executed before all writes');
+    return target instanceof admin.firestore.Query ? queryScans() : snapshot(target.path);
+  }
+
+  var tx = {
+    get: async function(target) { return read(target); },
+    getAll: async function() { return Array.from(arguments).map(read); },
+    create: function(ref, data) {
+      if (store.has(ref.path)) throw new Error('Document already exists: ' + ref.path);
+      writes.push(function() { writeDoc(ref.path, data, false); });
+    },
+    set: function(ref, data, options) {
+      writes.push(function() { writeDoc(ref.path, data, Boolean(options && options.merge)); });
+    },
+    update: function(ref, data) {
+      if (!store.has(ref.path)) throw new Error('No document to update: ' + ref.path);
+      writes.push(function() { writeDoc(ref.path, data, true); });
+    }
+  };
+
+  var result = await callback(tx);
+  writes.forEach(function(write) { write(); });
+  return result;
+}
+
+function verdict(overrides) {
+  return Object.assign({ object: 'Soda can', recyclable: true, confidence: 0.9, reason: 'Aluminium' }, overrides);
+}
+
+var META = { provider: 'mock', mode: 'single' };
+
+// The user's ledger entries in the order they were written
+function ledger() {
+  return Array.from(store.keys())
+    .filter(function(path) { return path.startsWith(PROFILE + '/ledger/'); })
+    .map(function(path) { return store.get(path); });
+}
+
+beforeEach(function() {
+  store = new Map();
+  rules = PLAIN_RULES;
+  mock.method(db, 'runTransaction', runTransaction);
+  mock.timers.enable({ apis: ['Date'], now: NOW });
+});
+
+afterEach(function() {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+describe('recordScans', function() {
+  it('awards confident results straight away', async function() {
+    var [scan] = await recordScans(UID, [verdict()], META);
+
+    assert.equal(scan.status, 'awarded');
+    assert.equal(scan.pointsEarned, 10);
+    assert.equal(store.get(PROFILE + '/scans/' + scan.scanId).confirmation, 'auto');
+    assert.deepEqual(store.get(PROFILE), { points: 10, itemsRecycled: 1 });
+    assert.deepEqual(store.get(SCORING), { pointsDay: '2025-03-14', pointsToday: 10, streakDays: 1, streakDay: '2025-03-14' });
+  });
+
+  it('leaves unsure results waiting for the user without touching the profile', async function() {
+    var [scan] = await recordScans(UID, [verdict({ confidence: 0.5 })], META);
+
+    assert.equal(scan.status, 'needs_confirmation');
+    assert.equal(scan.pointsEarned, 0);
+    assert.equal(store.has(PROFILE), false);
+  });
+
+  it('records a repeat of a recent photo as a duplicate that earns nothing', async function() {
+    var [first] = await recordScans(UID, [verdict()], Object.assign({ imageHash: 'f0f0f0f0f0f0f0f0' }, META));
+    mock.timers.tick(60 * 1000);
+    var [repeat] = await recordScans(UID, [verdict()], Object.assign({ imageHash: 'f0f0f0f0f0f0f0f1' }, META));
+
+    assert.equal(repeat.status, 'duplicate');
+    assert.equal(repeat.pointsEarned, 0);
+    assert.equal(store.get(PROFILE + '/scans/' + repeat.scanId).duplicateOf, first.scanId);
+    assert.equal(store.get(PROFILE).points, 10);
+    await assert.rejects(awardScan(UID, repeat.scanId), { status: 409 });
+  });
+
+  it('counts a barcode read again within seconds as a duplicate', async function() {
+    var meta = { provider: 'barcode', mode: 'barcode', barcode: '5449000000996' };
+
+    var [first] = await recordScans(UID, [verdict({ confidence: 1 })], meta);
+    mock.timers.tick(5 * 1000);
+    var [repeat] = await recordScans(UID, [verdict({ confidence: 1 })], meta);
+
+    assert.equal(repeat.status, 'duplicate');
+    assert.equal(store.get(PROFILE + '/scans/' + repeat.scanId).duplicateOf, first.scanId);
+  });
+
+  it('awards identical products scanned apart until the per-product limit', async function() {
+    var meta = { provider: 'barcode', mode: 'barcode', barcode: '5449000000996' };
+    var statuses = [];
+    for (var i = 0; i < 11; i++) {
+      var [scan] = await recordScans(UID, [verdict({ confidence: 1 })], meta);
+      statuses.push(scan.status);
+      mock.timers.tick(60 * 1000);
+    }
+
+    assert.deepEqual(statuses, Array(10).fill('awarded').concat('duplicate'));
+    assert.equal(store.get(PROFILE).points, 100);
+  });
+
+  it('trims awards to what is left of the daily cap', async function() {
+    store.set(SCORING, { pointsDay: '2025-03-14', pointsToday: 195 });
+
+    var [trimmed] = await recordScans(UID, [verdict()], META);
+    var [capped] = await recordScans(UID, [verdict()], META);
+
+    assert.deepEqual([trimmed.pointsEarned, trimmed.dailyCapReached], [5, true]);
+    assert.deepEqual([capped.pointsEarned, capped.dailyCapReached], [0, true]);
+    assert.equal(store.get(PROFILE).points, 5);
+    assert.equal(store.get(SCORING).pointsToday, 200);
+  });
+
+  it('starts the daily cap over on a new day', async function() {
+    store.set(SCORING, { pointsDay: '2025-03-13', pointsToday: 200 });
+
+    var [scan] = await recordScans(UID, [verdict()], META);
+
+    assert.equal(scan.pointsEarned, 10);
+    assert.equal(store.get(SCORING).pointsDay, '2025-03-14');
+    assert.equal(store.get(SCORING).pointsToday, 10);
+  });
+
+  it('writes a ledger entry for every award, even one the daily cap trimmed to nothing', async function() {
+    var [scan] = await recordScans(UID, [verdict()], META);
+    store.set(SCORING, { pointsDay: '2025-03-14', pointsToday: 200 });
+    var [capped] = await recordScans(UID, [verdict({ object: 'Glass jar' })], META);
+    await recordScans(UID, [verdict({ confidence: 0.5 })], META);
+
+    assert.deepEqual(ledger(), [
+      {
+        amount: 10,
+        itemsRecycled: 1,
+        reason: 'scan_awarded',
+        actor: { type: 'system', id: 'auto-award' },
+        scanId: scan.scanId,
+        rulesVersion: 1,
+        createdAt: Timestamp.fromMillis(NOW)
+      },
+      {
+        amount: 0,
+        itemsRecycled: 1,
+        reason: 'scan_awarded',
+        actor: { type: 'system', id: 'auto-award' },
+        scanId: capped.scanId,
+        rulesVersion: 1,
+        createdAt: Timestamp.fromMillis(NOW),
+        dailyCapReached: true
+      }
+    ]);
+  });
+
+  it('scores by the published rules and keeps streaks and discoveries off the profile', async function() {
+    rules = defaultRules;
+    store.set(SCORING, { streakDays: 4, streakDay: '2025-03-13', discoveredMaterials: ['pet-1'] });
+
+    var [can, bottle] = await recordScans(UID, [
+      verdict({ materialId: 'aluminum-can' }),
+      verdict({ object: 'Water bottle', materialId: 'pet-1' })
+    ], Object.assign({}, META, { mode: 'multi' }));
+
+    // (10 + 2 metal + 15 first can) x 1.3 for day 5 of the streak, then 10 x 1.3
+    assert.equal(can.pointsEarned, 35);
+    assert.equal(can.scoring.discoveryBonus, 15);
+    assert.equal(bottle.pointsEarned, 13);
+    assert.equal(bottle.scoring.discoveryBonus, 0);
+    assert.deepEqual(store.get(PROFILE), { points: 48, itemsRecycled: 2 });
+    assert.deepEqual(store.get(SCORING), {
+      streakDays: 5,
+      streakDay: '2025-03-14',
+      discoveredMaterials: ['pet-1', 'aluminum-can'],
+      pointsDay: '2025-03-14',
+      pointsToday: 48
+    });
+  });
+
+  it('starts the streak over after a day without an award', async function() {
+    store.set(SCORING, { streakDays: 4, streakDay: '2025-03-12' });
+
+    await recordScans(UID, [verdict()], META);
+
+    assert.equal(store.get(SCORING).streakDays, 1);
+  });
+});
+
+describe('leaderboard participants', function() {
+  it('counts a user once per period, when they first score in it', async function() {
+    await recordScans(UID, [verdict()], META);
+    await recordScans(UID, [verdict({ object: 'Glass jar' })], META);
+    await recordScans('bob', [verdict()], META);
+
+    assert.equal(store.get('leaderboards/weekly/periods/2025-W11').participants, 2);
+    assert.equal(store.get('leaderboards/monthly/periods/2025-03').participants, 2);
+  });
+});
+
+describe('awardScan', function() {
+  it('awards a confirmed scan once', async function() {
+    var [pending] = await recordScans(UID, [verdict({ confidence: 0.5 })], META);
+
+    var awarded = await awardScan(UID, pending.scanId);
+    var again = await awardScan(UID, pending.scanId);
+
+    assert.equal(awarded.pointsEarned, 10);
+    assert.equal(again.alreadyAwarded, true);
+    assert.deepEqual(store.get(PROFILE), { points: 10, itemsRecycled: 1 });
+  });
+
+  it('never pays more for a correction than the classifier\'s verdict would have', async function() {
+    var [pending] = await recordScans(UID, [verdict({ recyclable: false, confidence: 0.5 })], META);
+
+    var corrected = await awardScan(UID, pending.scanId, { material: 'Soda can', recyclable: true });
+
+    assert.equal(corrected.pointsEarned, 5);
+    assert.equal(store.get(PROFILE + '/scans/' + pending.scanId).recyclable, true);
+  });
+
+  it('rejects scans that do not exist', async function() {
+    await assert.rejects(awardScan(UID, 'missing'), { status: 404 });
+  });
+});
+
+describe('correctScan', function() {
+  var DAY = 24 * 60 * 60 * 1000;
+
+  it('awards a waiting scan by the corrected verdict, but never above the classifier\'s', async function() {
+    var [pending] = await recordScans(UID, [verdict({ recyclable: false, confidence: 0.5 })], META);
+
+    var corrected = await correctScan(UID, pending.scanId, { material: 'Soda can', recyclable: true });
+
+    assert.deepEqual([corrected.status, corrected.pointsEarned, corrected.pointsAdjustment], ['awarded', 5, 5]);
+    assert.deepEqual(store.get(PROFILE), { points: 5 });
+  });
+
+  it('only ever lowers the points of an awarded scan', async function() {
+    var [scan] = await recordScans(UID, [verdict()], META);
+
+    var lowered = await correctScan(UID, scan.scanId, { material: 'Chip bag', recyclable: false });
+    var raisedAgain = await correctScan(UID, scan.scanId, { material: 'Soda can', recyclable: true });
+
+    assert.deepEqual([lowered.pointsEarned, lowered.pointsAdjustment], [5, -5]);
+    assert.deepEqual([raisedAgain.pointsEarned, raisedAgain.pointsAdjustment], [5, 0]);
+    assert.deepEqual(store.get(PROFILE), { points: 5, itemsRecycled: 1 });
+  });
+
+  it('takes the item back out of itemsRecycled when it turns out not to be recyclable', async function() {
+    var [scan] = await recordScans(UID, [verdict()], META);
+
+    await correctScan(UID, scan.scanId, { material: 'Chip bag', recyclable: false });
+
+    assert.deepEqual(store.get(PROFILE), { points: 5, itemsRecycled: 0 });
+  });
+
+  it('records what a correction took back in the ledger, so it still adds up to the profile', async function() {
+    var [scan] = await recordScans(UID, [verdict()], META);
+
+    await correctScan(UID, scan.scanId, { material: 'Chip bag', recyclable: false });
+
+    var entries = ledger();
+    assert.deepEqual(entries.map(function(entry) { return [entry.reason, entry.amount, entry.itemsRecycled]; }), [
+      ['scan_awarded', 10, 1],
+      ['scan_rescored', -5, -1]
+    ]);
+    assert.deepEqual(entries[1].actor, { type: 'user', id: UID });
+    assert.equal(entries[1].scanId, scan.scanId);
+    assert.deepEqual(store.get(PROFILE), {
+      points: entries.reduce(function(sum, entry) { return sum + entry.amount; }, 0),
+      itemsRecycled: entries.reduce(function(sum, entry) { return sum + entry.itemsRecycled; }, 0)
+    });
+  });
+
+  it('takes a correction to last week\'s scan off the month and all-time totals, not this week\'s', async function() {
+    store.set(PROFILE, { name: 'Alice', points: 0, itemsRecycled: 0 });
+    var [scan] = await recordScans(UID, [verdict()], META);
+    // Friday the 14th to Tuesday the 18th: a new week, the same month
+    mock.timers.tick(4 * DAY);
+
+    var corrected = await correctScan(UID, scan.scanId, { material: 'Chip bag', recyclable: false });
+
+    assert.equal(corrected.pointsAdjustment, -5);
+    assert.deepEqual(store.get(PROFILE), { name: 'Alice', points: 5, itemsRecycled: 0 });
+    assert.deepEqual(ledger().pop(), {
+      amount: -5,
+      itemsRecycled: -1,
+      reason: 'scan_rescored',
+      actor: { type: 'user', id: UID },
+      scanId: scan.scanId,
+      rulesVersion: 1,
+      createdAt: Timestamp.fromMillis(NOW + 4 * DAY)
+    });
+
+    var lastWeek = store.get('leaderboards/weekly/periods/2025-W11/entries/' + UID);
+    assert.deepEqual([lastWeek.name, lastWeek.points, lastWeek.itemsRecycled], ['Alice', 10, 1]);
+    assert.equal(store.has('leaderboards/weekly/periods/2025-W12/entries/' + UID), false);
+    assert.equal(store.has('leaderboards/weekly/periods/2025-W12'), false);
+    var month = store.get('leaderboards/monthly/periods/2025-03/entries/' + UID);
+    assert.deepEqual([month.points, month.itemsRecycled], [5, 0]);
+  });
+
+  it('gives back room under the daily cap only for points earned today', async function() {
+    var [yesterdays] = await recordScans(UID, [verdict()], META);
+    mock.timers.tick(DAY);
+    var [todays] = await recordScans(UID, [verdict()], META);
+
+    await correctScan(UID, yesterdays.scanId, { material: 'Chip bag', recyclable: false });
+    assert.equal(store.get(SCORING).pointsToday, 10);
+
+    await correctScan(UID, todays.scanId, { material: 'Chip bag', recyclable: false });
+    assert.equal(store.get(SCORING).pointsToday, 5);
+  });
+
+  it('keeps the classifier\'s verdict through repeated corrections', async function() {
+    var [pending] = await recordScans(UID, [verdict({ recyclable: false, confidence: 0.5 })], META);
+
+    await correctScan(UID, pending.scanId, { material: 'Soda can', recyclable: true });
+    await correctScan(UID, pending.scanId, { material: 'Tin can', recyclable: true });
+
+    var record = store.get(PROFILE + '/scans/' + pending.scanId);
+    assert.equal(record.classifierVerdict.recyclable, false);
+    assert.equal(record.material, 'Tin can');
+    assert.equal(record.pointsEarned, 5);
+  });
+
+  it('labels duplicates without awarding them', async function() {
+    await recordScans(UID, [verdict()], Object.assign({ imageHash: 'f0f0f0f0f0f0f0f0' }, META));
+    var [repeat] = await recordScans(UID, [verdict()], Object.assign({ imageHash: 'f0f0f0f0f0f0f0f0' }, META));
+
+    var corrected = await correctScan(UID, repeat.scanId, { material: 'Tin can', recyclable: true });
+
+    assert.deepEqual([corrected.status, corrected.pointsEarned, corrected.pointsAdjustment], ['duplicate', 0, 0]);
+    assert.equal(store.get(PROFILE).points, 10);
+  });
+});
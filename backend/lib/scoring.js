@@ -0,0 +1,201 @@
+/**
+ * Scoring rules and the points a finished scan is worth.
+ *
+ * The rules live in one Firestore document, config/scoring, which the web app also reads for its
+ * copy. data/scoring.json holds the defaults used until that document exists; publish edits with
+ * scripts/publish-scoring.js. The document is re-read at most once a minute, so rule changes take
+ * effect without a redeploy. A document that fails validation is logged and ignored, and the last
+ * good rules stay in force.
+ *
+ *   points = ((base + category bonus) x difficulty + first-discovery bonus) x streak x events
+ */
+
+var { db } = require('./firebase');
+var { findMaterial, isCategory } = require('./materials');
+var defaultRules = require('../data/scoring.json');
+
+var RULES_TTL_MS = 60 * 1000;
+// The catch-all bucket isn't something a user discovers
+var FALLBACK_MATERIAL_ID = 'other';
+
+function isAmount(value) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isDate(value) {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Returns rules when they can be used for scoring and throws a descriptive error otherwise.
+ * points, dailyCap and version are required; every other section is optional.
+ */
+
+function validateRules(rules) {
+  function check(ok, message) {
+    if (!ok) throw new Error('Scoring rules: ' + message);
+  }
+
+  check(rules && Number.isInteger(rules.version), '"version" must be an integer');
+  check(rules.points && isAmount(rules.points.recyclable) && isAmount(rules.points.notRecyclable),
+    '"points" needs numeric "recyclable" and "notRecyclable" values');
+  check(isAmount(rules.dailyCap), '"dailyCap" must be a number');
+
+  var categoryBonus = rules.categoryBonus || {};
+  Object.keys(categoryBonus).forEach(function(category) {
+    check(isCategory(category), 'bonus for unknown category "' + category + '"');
+    check(isAmount(categoryBonus[category]), 'bonus for category "' + category + '" must be a number');
+  });
+
+  var difficulty = rules.difficulty || {};
+  var levels = difficulty.levels || {};
+  Object.keys(levels).forEach(function(level) {
+    check(isAmount(levels[level]), 'difficulty "' + level + '" must be a number');
+  });
+  Object.keys(difficulty.materials || {}).forEach(function(id) {
+    check(findMaterial(id), 'difficulty for unknown material "' + id + '"');
+    check(levels[difficulty.materials[id]] !== undefined, 'material "' + id + '" has an undefined difficulty level');
+  });
+
+  check(rules.firstDiscoveryBonus === undefined || isAmount(rules.firstDiscoveryBonus), '"firstDiscoveryBonus" must be a number');
+
+  if (rules.streak) {
+    check(Number.isInteger(rules.streak.fromDay) && rules.streak.fromDay >= 1, '"streak.fromDay" must be a whole number of days');
+    check(isAmount(rules.streak.bonusPerDay), '"streak.bonusPerDay" must be a number');
+    check(isAmount(rules.streak.maxMultiplier) && rules.streak.maxMultiplier >= 1, '"streak.maxMultiplier" must be at least 1');
+  }
+
+  (rules.events || []).forEach(function(event) {
+    check(event.id && event.name, 'every event needs an "id" and a "name"');
+    check(isDate(event.startsAt) && isDate(event.endsAt), 'event "' + event.id + '" needs ISO "startsAt" and "endsAt" dates');
+    check(isAmount(event.multiplier), 'event "' + event.id + '" needs a numeric "multiplier"');
+    check(event.materialIds === undefined || Array.isArray(event.materialIds), 'event "' + event.id + '" needs "materialIds" as a list');
+    (event.materialIds || []).forEach(function(id) {
+      check(findMaterial(id), 'event "' + event.id + '" refers to unknown material "' + id + '"');
+    });
+    check(event.categories === undefined || Array.isArray(event.categories), 'event "' + event.id + '" needs "categories" as a list');
+    (event.categories || []).forEach(function(category) {
+      check(isCategory(category), 'event "' + event.id + '" refers to unknown category "' + category + '"');
+    });
+  });
+
+  return rules;
+}
+
+var cache = { rules: validateRules(defaultRules), loadedAt: 0 };
+
+/**
+ * The rules in force: config/scoring when it exists, else data/scoring.json.
+ */
+
+async function loadScoringRules() {
+  if (Date.now() - cache.loadedAt < RULES_TTL_MS) return cache.rules;
+
+  try {
+    var snap = await db.collection('config').doc('scoring').get();
+    cache.rules = snap.exists ? validateRules(snap.data()) : defaultRules;
+  } catch (err) {
+    console.error('Keeping scoring rules version ' + cache.rules.version + ':', err.message);
+  }
+  cache.loadedAt = Date.now();
+  return cache.rules;
+}
+
+function basePoints(rules, recyclable) {
+  return recyclable ? rules.points.recyclable : rules.points.notRecyclable;
+}
+
+function streakMultiplier(rules, streakDays) {
+  var streak = rules.streak;
+  if (!streak || streakDays < streak.fromDay) return 1;
+  var multiplier = Math.min(1 + (streakDays - streak.fromDay + 1) * streak.bonusPerDay, streak.maxMultiplier);
+  return Math.round(multiplier * 100) / 100;
+}
+
+function activeEvents(rules, material, now) {
+  return (rules.events || []).filter(function(event) {
+    return now >= new Date(event.startsAt) && now < new Date(event.endsAt)
+      && (!event.materialIds || event.materialIds.includes(material.id))
+      && (!event.categories || event.categories.includes(material.category));
+  });
+}
+
+/**
+ * Scores one verdict { recyclable, materialId }. context: { streakDays, discovered, now } where
+ * discovered is the Set of material ids the user has already scanned (no discovery bonus when it is
+ * missing) and now picks the active events. Returns { points, breakdown }; the breakdown is stored
+ * on the scan record so an award can be explained later.
+ */
+
+function scoreScan(rules, verdict, context) {
+  var material = findMaterial(verdict.materialId) || findMaterial(FALLBACK_MATERIAL_ID);
+  var level = (rules.difficulty && rules.difficulty.materials && rules.difficulty.materials[material.id]) || null;
+  var difficulty = level ? rules.difficulty.levels[level] : 1;
+  var categoryBonus = (rules.categoryBonus || {})[material.category] || 0;
+  var discovered = context.discovered;
+  var discoveryBonus = discovered && material.id !== FALLBACK_MATERIAL_ID && !discovered.has(material.id)
+    ? rules.firstDiscoveryBonus || 0
+    : 0;
+  var streakDays = context.streakDays || 0;
+  var streak = streakMultiplier(rules, streakDays);
+  var events = activeEvents(rules, material, context.now || new Date());
+  var eventMultiplier = events.reduce(function(product, event) { return product * event.multiplier; }, 1);
+
+  var base = basePoints(rules, verdict.recyclable);
+  return {
+    points: Math.round(((base + categoryBonus) * difficulty + discoveryBonus) * streak * eventMultiplier),
+    breakdown: {
+      rulesVersion: rules.version,
+      recyclable: verdict.recyclable,
+      materialId: material.id,
+      base: base,
+      categoryBonus: categoryBonus,
+      difficulty: level,
+      difficultyMultiplier: difficulty,
+      discoveryBonus: discoveryBonus,
+      streakDays: streakDays,
+      streakMultiplier: streak,
+      events: events.map(function(event) {
+        return { id: event.id, name: event.name, multiplier: event.multiplier };
+      })
+    }
+  };
+}
+
+/**
+ * Day key the daily cap and streaks are counted against, e.g. "2025-03-14".
+ */
+
+function pointsDay(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Days in a row with an awarded scan, counting the day of now, for a user whose scoring state
+ * records a last award on state.streakDay with a streak of state.streakDays. A day without one
+ * starts over at 1.
+ */
+
+function streakDaysOn(state, now) {
+  var day = pointsDay(now);
+  if (state.streakDay === day) return state.streakDays || 1;
+  if (state.streakDay === pointsDay(new Date(now.getTime() - 24 * 60 * 60 * 1000))) return (state.streakDays || 0) + 1;
+  return 1;
+}
+
+/**
+ * The part of points that still fits under the daily cap once earnedToday has been awarded.
+ */
+
+function capPoints(rules, earnedToday, points) {
+  return Math.min(points, Math.max(rules.dailyCap - earnedToday, 0));
+}
+
+module.exports = {
+  validateRules: validateRules,
+  loadScoringRules: loadScoringRules,
+  scoreScan: scoreScan,
+  pointsDay: pointsDay,
+  streakDaysOn: streakDaysOn,
+  capPoints: capPoints
+};
@@ -0,0 +1,159 @@
+var { describe, it } = require('node:test');
+var assert = require('node:assert/strict');
+
+var { validateRules, scoreScan, pointsDay, streakDaysOn, capPoints } = require('./scoring');
+var defaultRules = require('../data/scoring.json');
+
+var NOW = new Date('2026-10-18T12:00:00Z');
+
+function withRules(changes) {
+  return Object.assign(JSON.parse(JSON.stringify(defaultRules)), changes);
+}
+
+describe('scoreScan', function() {
+  it('awards the base points for the verdict', function() {
+    assert.equal(scoreScan(defaultRules, { recyclable: true, materialId: 'pet-1' }, { now: NOW }).points, 10);
+    assert.equal(scoreScan(defaultRules, { recyclable: false, materialId: 'pet-1' }, { now: NOW }).points, 5);
+  });
+
+  it('adds the category bonus before applying the difficulty', function() {
+    assert.equal(scoreScan(defaultRules, { recyclable: true, materialId: 'aluminum-can' }, { now: NOW }).points, 12);
+    // (5 not recyclable + 5 hazardous) x 2 hard
+    assert.equal(scoreScan(defaultRules, { recyclable: false, materialId: 'battery' }, { now: NOW }).points, 20);
+  });
+
+  it('gives the discovery bonus for a material the user has not scanned yet', function() {
+    var verdict = { recyclable: true, materialId: 'pet-1' };
+    assert.equal(scoreScan(defaultRules, verdict, { discovered: new Set(), now: NOW }).points, 25);
+    assert.equal(scoreScan(defaultRules, verdict, { discovered: new Set(['pet-1']), now: NOW }).points, 10);
+  });
+
+  it('never gives the discovery bonus for the catch-all material', function() {
+    var result = scoreScan(defaultRules, { recyclable: false, materialId: 'no-such-material' }, { discovered: new Set(), now: NOW });
+    assert.equal(result.breakdown.materialId, 'other');
+    assert.equal(result.breakdown.discoveryBonus, 0);
+  });
+
+  it('applies the streak multiplier from fromDay up to maxMultiplier', function() {
+    var verdict = { recyclable: true, materialId: 'pet-1' };
+    assert.equal(scoreScan(defaultRules, verdict, { streakDays: 2, now: NOW }).breakdown.streakMultiplier, 1);
+    assert.equal(scoreScan(defaultRules, verdict, { streakDays: 3, now: NOW }).breakdown.streakMultiplier, 1.1);
+    assert.equal(scoreScan(defaultRules, verdict, { streakDays: 30, now: NOW }).breakdown.streakMultiplier, 1.5);
+    assert.equal(scoreScan(defaultRules, verdict, { streakDays: 3, now: NOW }).points, 11);
+  });
+
+  it('multiplies by events that are running and match the material', function() {
+    var rules = withRules({
+      events: [{
+        id: 'metal-week',
+        name: 'Metal week',
+        startsAt: '2026-10-12T00:00:00Z',
+        endsAt: '2026-10-19T00:00:00Z',
+        multiplier: 2,
+        categories: ['metal']
+      }]
+    });
+    var can = { recyclable: true, materialId: 'aluminum-can' };
+    assert.equal(scoreScan(rules, can, { now: NOW }).points, 24);
+    assert.equal(scoreScan(rules, can, { now: new Date('2026-10-19T00:00:00Z') }).points, 12);
+    assert.equal(scoreScan(rules, { recyclable: true, materialId: 'pet-1' }, { now: NOW }).points, 10);
+  });
+
+  it('explains the award in the breakdown', function() {
+    var result = scoreScan(defaultRules, { recyclable: false, materialId: 'battery' }, { streakDays: 1, now: NOW });
+    assert.deepEqual(result.breakdown, {
+      rulesVersion: defaultRules.version,
+      recyclable: false,
+      materialId: 'battery',
+      base: 5,
+      categoryBonus: 5,
+      difficulty: 'hard',
+      difficultyMultiplier: 2,
+      discoveryBonus: 0,
+      streakDays: 1,
+      streakMultiplier: 1,
+      events: []
+    });
+  });
+});
+
+describe('validateRules', function() {
+  it('accepts the default rules', function() {
+    assert.equal(validateRules(defaultRules), defaultRules);
+  });
+
+  it('rejects rules missing a required section', function() {
+    assert.throws(function() { validateRules(withRules({ version: '1' })); }, /"version"/);
+    assert.throws(function() { validateRules(withRules({ points: { recyclable: 10 } })); }, /"points"/);
+    assert.throws(function() { validateRules(withRules({ dailyCap: -1 })); }, /"dailyCap"/);
+  });
+
+  it('rejects unknown categories and materials', function() {
+    assert.throws(function() { validateRules(withRules({ categoryBonus: { metals: 2 } })); }, /unknown category "metals"/);
+    assert.throws(function() {
+      validateRules(withRules({ difficulty: { levels: { hard: 2 }, materials: { 'pet-9': 'hard' } } }));
+    }, /unknown material "pet-9"/);
+  });
+
+  it('rejects difficulty levels that are not defined', function() {
+    assert.throws(function() {
+      validateRules(withRules({ difficulty: { levels: { hard: 2 }, materials: { battery: 'extreme' } } }));
+    }, /undefined difficulty level/);
+  });
+
+  it('rejects a streak that would lower points', function() {
+    assert.throws(function() {
+      validateRules(withRules({ streak: { fromDay: 3, bonusPerDay: 0.1, maxMultiplier: 0.5 } }));
+    }, /"streak\.maxMultiplier"/);
+  });
+
+  it('rejects malformed events', function() {
+    var event = { id: 'e', name: 'Event', startsAt: '2026-10-12', endsAt: '2026-10-19', multiplier: 2 };
+    assert.doesNotThrow(function() { validateRules(withRules({ events: [event] })); });
+    assert.throws(function() { validateRules(withRules({ events: [Object.assign({}, event, { endsAt: 'soon' })] })); }, /"endsAt"/);
+    assert.throws(function() { validateRules(withRules({ events: [Object.assign({}, event, { categories: 'metal' })] })); }, /as a list/);
+    assert.throws(function() { validateRules(withRules({ events: [Object.assign({}, event, { categories: ['metals'] })] })); }, /unknown category "metals"/);
+    assert.throws(function() { validateRules(withRules({ events: [Object.assign({}, event, { materialIds: ['pet-9'] })] })); }, /unknown material "pet-9"/);
+  });
+});
+
+describe('pointsDay', function() {
+  it('counts days in UTC', function() {
+    assert.equal(pointsDay(new Date('2026-03-14T23:30:00-05:00')), '2026-03-15');
+    assert.equal(pointsDay(new Date('2026-03-15T00:00:00Z')), '2026-03-15');
+  });
+});
+
+describe('streakDaysOn', function() {
+  it('starts a new user at day 1', function() {
+    assert.equal(streakDaysOn({}, NOW), 1);
+  });
+
+  it('keeps the streak for another award on the same day', function() {
+    assert.equal(streakDaysOn({ streakDay: '2026-10-18', streakDays: 4 }, NOW), 4);
+  });
+
+  it('extends the streak when the last award was yesterday', function() {
+    assert.equal(streakDaysOn({ streakDay: '2026-10-17', streakDays: 4 }, NOW), 5);
+    assert.equal(streakDaysOn({ streakDay: '2026-09-30', streakDays: 2 }, new Date('2026-10-01T00:10:00Z')), 3);
+  });
+
+  it('starts over after a day without an award', function() {
+    assert.equal(streakDaysOn({ streakDay: '2026-10-16', streakDays: 4 }, NOW), 1);
+  });
+});
+
+describe('capPoints', function() {
+  it('awards everything while under the cap', function() {
+    assert.equal(capPoints(defaultRules, 100, 25), 25);
+  });
+
+  it('trims the award to what is left under the cap', function() {
+    assert.equal(capPoints(defaultRules, 190, 25), 10);
+    assert.equal(capPoints(defaultRules, 200, 25), 0);
+  });
+
+  it('never goes negative when the cap was lowered', function() {
+    assert.equal(capPoints(withRules({ dailyCap: 50 }), 120, 25), 0);
+  });
+});
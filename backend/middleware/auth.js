@@ -0,0 +1,26 @@
+var createError = require('http-errors');
+var { auth } = require('../lib/firebase');
+
+/**
+ * Verifies the Firebase ID token sent as "Authorization: Bearer <token>"
+ * and exposes the decoded token as req.user.
+ */
+
+async function requireAuth(req, res, next) {
+  var header = req.get('Authorization') || '';
+  var match = header.match(/^Bearer (.+)$/);
+
+  if (!match) {
+    return next(createError(401, 'Missing Firebase ID token'));
+  }
+
+  try {
+    req.user = await auth.verifyIdToken(match[1]);
+    next();
+  } catch (err) {
+    console.warn('Rejected Firebase ID token:', err.code || err.message);
+    next(createError(401, 'Invalid or expired Firebase ID token'));
+  }
+}
+
+module.exports = requireAuth;
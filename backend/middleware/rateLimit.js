@@ -0,0 +1,39 @@
+var createError = require('http-errors');
+
+/**
+ * Fixed-window rate limit per signed-in user (falls back to the client IP).
+ * State is in memory, so each backend instance counts on its own.
+ */
+
+function rateLimit(options) {
+  var windowMs = options.windowMs;
+  var max = options.max;
+  var hits = new Map();
+
+  return function(req, res, next) {
+    var key = (req.user && req.user.uid) || req.ip;
+    var now = Date.now();
+    var entry = hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count++;
+
+    // Drop expired windows now and then so the map doesn't grow forever
+    if (hits.size > 10000) {
+      hits.forEach(function(value, mapKey) {
+        if (value.resetAt <= now) hits.delete(mapKey);
+      });
+    }
+
+    if (entry.count > max) {
+      res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+      return next(createError(429, 'Too many scans - please wait a moment', { kind: 'quota' }));
+    }
+    next();
+  };
+}
+
+module.exports = rateLimit;
@@ -0,0 +1,23 @@
+var express = require('express');
+var requireAuth = require('../middleware/auth');
+var { listRegions, readLocation, regionAt } = require('../lib/regions');
+
+var router = express.Router();
+
+/* GET the regions that have local recycling rules. Query: lat, lon (optional)
+ * Responds { regions: [{ id, name }], detected }, where detected is the id of the region
+ * containing lat/lon, or null. */
+router.get('/', requireAuth, function(req, res, next) {
+  try {
+    var location = req.query.lat === undefined && req.query.lon === undefined
+      ? undefined
+      : readLocation({ lat: req.query.lat, lon: req.query.lon });
+    var detected = location && regionAt(location.lat, location.lon);
+
+    res.json({ regions: listRegions(), detected: detected ? detected.id : null });
+  } catch (err) {
+    next(err);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,261 @@
+var express = require('express');
+var createError = require('http-errors');
+var requireAuth = require('../middleware/auth');
+var rateLimit = require('../middleware/rateLimit');
+var crypto = require('crypto');
+var { getClassifier, toClassifierError } = require('../lib/classifier');
+var { recordScans, awardScan, correctScan, getScan } = require('../lib/scans');
+var { imageHash } = require('../lib/imageHash');
+var { SIZES, saveScanImage, getScanImageUrl } = require('../lib/scanImages');
+var { normalizeBarcode, findProduct } = require('../lib/products');
+var { applyTaxonomy } = require('../lib/materials');
+var { readLocation, resolveRegion, applyRegionRules } = require('../lib/regions');
+var { normalizeLanguage } = require('../lib/prompts');
+
+var router = express.Router();
+
+var MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+var MODES = ['single', 'multi'];
+
+var analyzeLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: Number(process.env.SCAN_RATE_LIMIT_PER_MINUTE) || 20
+});
+
+/**
+ * Accepts raw base64 or a data URI and returns { mimeType, data } for the classifier.
+ */
+
+function readImage(body) {
+  var image = body && body.image;
+  if (typeof image !== 'string' || !image) {
+    throw createError(400, 'Request body needs an "image" (base64 or data URI)');
+  }
+
+  var mimeType = body.mimeType;
+  var dataUri = image.match(/^data:([^;,]+);base64,(.*)$/);
+  if (dataUri) {
+    mimeType = mimeType || dataUri[1];
+    image = dataUri[2];
+  }
+
+  if (typeof mimeType !== 'string' || !mimeType.startsWith('image/')) {
+    throw createError(415, 'Only image uploads can be analyzed');
+  }
+  if (Buffer.byteLength(image, 'base64') > MAX_IMAGE_BYTES) {
+    throw createError(413, 'Image is too large');
+  }
+
+  return { mimeType: mimeType, data: image };
+}
+
+/**
+ * Reads { material, recyclable } from a confirm request, or undefined when the user just confirmed.
+ */
+
+function readCorrection(body) {
+  var correction = body && body.correction;
+  if (!correction) return undefined;
+
+  var material = typeof correction.material === 'string' ? correction.material.trim() : '';
+  if (!material || material.length > 120 || typeof correction.recyclable !== 'boolean') {
+    throw createError(400, 'A correction needs a material name and a recyclable true/false');
+  }
+  return { material: material, recyclable: correction.recyclable };
+}
+
+/* POST analyze a scan photo. Body: { image, mimeType?, mode?: "single" | "multi", location?: { lat, lon }, language? }
+ * Every result is saved as a scan record; the response includes each record's id and award status
+ * ("awarded", "needs_confirmation" or "duplicate"). Local rules for the user's region (their setting,
+ * else location) override the verdict; regionRule describes the one that applied. */
+router.post('/analyze', requireAuth, analyzeLimit, async function(req, res, next) {
+  var startedAt = Date.now();
+  var mode = req.body.mode || 'single';
+  var image;
+  var location;
+  var buffer;
+  var hash;
+
+  try {
+    if (!MODES.includes(mode)) {
+      throw createError(400, 'Unknown mode "' + mode + '"');
+    }
+    image = readImage(req.body);
+    location = readLocation(req.body.location);
+  } catch (err) {
+    return next(err);
+  }
+
+  try {
+    buffer = Buffer.from(image.data, 'base64');
+    hash = await imageHash(buffer);
+  } catch (err) {
+    return next(createError(415, 'Image could not be decoded'));
+  }
+
+  var region;
+  try {
+    region = await resolveRegion(req.user.uid, location);
+  } catch (err) {
+    return next(err);
+  }
+
+  var classifier;
+  var results;
+  try {
+    classifier = getClassifier();
+    // The prompt is written for the user's language and region; see lib/prompts.js
+    var context = { uid: req.user.uid, language: normalizeLanguage(req.body.language), region: region };
+    var answers = mode === 'multi'
+      ? await classifier.detectItems(image, context)
+      : [await classifier.classify(image, context)];
+    results = answers.map(function(answer) {
+      return applyRegionRules(applyTaxonomy(answer), region);
+    });
+  } catch (err) {
+    var classifierError = toClassifierError(err);
+    console.error('Scan analysis failed', JSON.stringify({
+      uid: req.user.uid,
+      kind: classifierError.kind,
+      message: classifierError.message,
+      ms: Date.now() - startedAt
+    }));
+    return next(createError(classifierError.status, classifierError.message, { kind: classifierError.kind }));
+  }
+
+  var imageId;
+  try {
+    imageId = await saveScanImage(req.user.uid, buffer);
+  } catch (err) {
+    // The photo is nice to have in history, but the scan itself shouldn't fail without it
+    console.error('Could not store scan image', JSON.stringify({ uid: req.user.uid, message: err.message }));
+  }
+
+  try {
+    var scans = await recordScans(req.user.uid, results, {
+      provider: classifier.id,
+      mode: mode,
+      imageId: imageId,
+      imageHash: hash,
+      batchId: mode === 'multi' ? crypto.randomUUID() : undefined
+    });
+    var withScans = results.map(function(result, index) {
+      return Object.assign({}, result, { scan: scans[index] });
+    });
+
+    console.log('Scan analyzed', JSON.stringify({
+      uid: req.user.uid,
+      provider: classifier.id,
+      mode: mode,
+      region: region ? region.id : null,
+      prompt: results.length ? results[0].promptVersion || null : null,
+      items: results.length,
+      duplicate: scans[0].status === 'duplicate',
+      points: scans.reduce(function(sum, scan) { return sum + scan.pointsEarned; }, 0),
+      ms: Date.now() - startedAt
+    }));
+    res.json(mode === 'multi' ? { items: withScans } : { result: withScans[0] });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/* POST look up a scanned barcode. Body: { code, location?: { lat, lon } } (EAN/UPC digits or a GS1 Digital Link)
+ * Known products are recorded like any other scan and respond { result } as /analyze does;
+ * unknown ones respond 404 with kind "unknown_product" so the app can classify a photo instead. */
+router.post('/barcode', requireAuth, analyzeLimit, async function(req, res, next) {
+  try {
+    var code = normalizeBarcode(req.body.code);
+    if (!code) {
+      throw createError(400, 'Request body needs a "code" with an EAN or UPC barcode');
+    }
+
+    var location = readLocation(req.body.location);
+
+    var product = findProduct(code);
+    if (!product) {
+      console.log('Unknown barcode', JSON.stringify({ uid: req.user.uid, code: code }));
+      throw createError(404, 'Product ' + code + ' is not in the product table', { kind: 'unknown_product' });
+    }
+    product = applyRegionRules(product, await resolveRegion(req.user.uid, location));
+
+    var scans = await recordScans(req.user.uid, [product], {
+      provider: 'barcode',
+      mode: 'barcode',
+      barcode: code
+    });
+
+    console.log('Barcode scanned', JSON.stringify({
+      uid: req.user.uid,
+      code: code,
+      duplicate: scans[0].status === 'duplicate',
+      points: scans[0].pointsEarned
+    }));
+    res.json({ result: Object.assign({}, product, { scan: scans[0] }) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/* POST confirm a scan that was waiting for the user, optionally with a corrected verdict.
+ * Body: { correction?: { material, recyclable } } */
+router.post('/:scanId/confirm', requireAuth, async function(req, res, next) {
+  try {
+    var correction = readCorrection(req.body);
+    var scan = await awardScan(req.user.uid, req.params.scanId, correction);
+
+    console.log('Scan confirmed', JSON.stringify({
+      uid: req.user.uid,
+      scanId: req.params.scanId,
+      corrected: Boolean(correction),
+      points: scan.alreadyAwarded ? 0 : scan.pointsEarned
+    }));
+    res.json({ scan: scan });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/* POST dispute any scan with the right material and verdict ("This is wrong").
+ * Body: { correction: { material, recyclable } }. Responds { scan } with pointsAdjustment, the change
+ * to the user's points (negative when an awarded scan is re-scored). */
+router.post('/:scanId/correction', requireAuth, async function(req, res, next) {
+  try {
+    var correction = readCorrection(req.body);
+    if (!correction) {
+      throw createError(400, 'Request body needs a "correction"');
+    }
+    var scan = await correctScan(req.user.uid, req.params.scanId, correction);
+
+    console.log('Scan corrected', JSON.stringify({
+      uid: req.user.uid,
+      scanId: req.params.scanId,
+      status: scan.status,
+      points: scan.pointsAdjustment
+    }));
+    res.json({ scan: scan });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/* GET a short-lived URL for a scan's photo. Query: size = "thumb" (default) | "full"
+ * Responds { url, expiresAt }, or 404 when the scan has no stored photo (never saved, or past retention). */
+router.get('/:scanId/image', requireAuth, async function(req, res, next) {
+  try {
+    var size = req.query.size || 'thumb';
+    if (!SIZES.includes(size)) {
+      throw createError(400, 'Unknown image size "' + size + '"');
+    }
+
+    var scan = await getScan(req.user.uid, req.params.scanId);
+    if (!scan.imageId) {
+      throw createError(404, 'This scan has no stored image');
+    }
+    res.json(await getScanImageUrl(req.user.uid, scan.imageId, size));
+  } catch (err) {
+    next(err);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Archives the weekly and monthly leaderboards that have just ended: writes the top recyclers and
+ * the number of participants to the period document, where the app lists past winners. Run it
+ * daily (cron, Cloud Scheduler...); periods that are already archived are skipped.
+ *
+ *   npm run close:leaderboards
+ *   npm run close:leaderboards -- --date=2025-03-09 --dry-run   # the periods that include that day
+ */
+
+var { admin, db } = require('../lib/firebase');
+var { PERIOD_TYPES, leaderboardPeriod, periodRef, entriesCollection } = require('../lib/leaderboards');
+
+var Timestamp = admin.firestore.Timestamp;
+var FieldValue = admin.firestore.FieldValue;
+
+// Entries kept on the archived period
+var WINNERS = 3;
+
+var dryRun = process.argv.includes('--dry-run');
+
+function readOption(name) {
+  var prefix = '--' + name + '=';
+  var arg = process.argv.find(function(value) { return value.startsWith(prefix); });
+  return arg ? arg.slice(prefix.length) : undefined;
+}
+
+async function closePeriod(period) {
+  var ref = periodRef(period);
+  var current = await ref.get();
+  if (current.exists && current.get('closedAt')) {
+    console.log(period.type + ' ' + period.id + ': already archived');
+    return;
+  }
+
+  var top = await entriesCollection(period).orderBy('points', 'desc').limit(WINNERS).get();
+  var participants = (await entriesCollection(period).count().get()).data().count;
+
+  // Equal points share a rank
+  var winners = [];
+  top.docs.forEach(function(snap, index) {
+    var entry = snap.data();
+    var previous = winners[index - 1];
+    winners.push({
+      rank: previous && previous.points === entry.points ? previous.rank : index + 1,
+      uid: entry.uid || snap.id,
+      name: entry.name || null,
+      points: entry.points || 0,
+      itemsRecycled: entry.itemsRecycled || 0
+    });
+  });
+
+  console.log((dryRun ? '[dry run] ' : '') + period.type + ' ' + period.id + ': ' + participants + ' participants, won by ' +
+    (winners.length ? winners.map(function(winner) { return (winner.name || winner.uid) + ' (' + winner.points + ')'; }).join(', ') : 'nobody'));
+  if (dryRun) return;
+
+  await ref.set({
+    type: period.type,
+    id: period.id,
+    startsAt: Timestamp.fromDate(period.startsAt),
+    endsAt: Timestamp.fromDate(period.endsAt),
+    participants: participants,
+    winners: winners,
+    closedAt: FieldValue.serverTimestamp()
+  });
+}
+
+async function main() {
+  var date = readOption('date');
+  if (date && Number.isNaN(Date.parse(date))) {
+    throw new Error('--date must be a date like 2025-03-09');
+  }
+  var now = new Date();
+
+  for (var type of PERIOD_TYPES) {
+    // Without --date, the period just before the current one
+    var period = date
+      ? leaderboardPeriod(type, new Date(date))
+      : leaderboardPeriod(type, new Date(leaderboardPeriod(type, now).startsAt.getTime() - 1));
+    if (period.endsAt > now) {
+      console.log(type + ' ' + period.id + ': still running, not archived');
+      continue;
+    }
+    await closePeriod(period);
+  }
+}
+
+main().catch(function(err) {
+  console.error('Closing leaderboards failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+/**
+ * Runs a classifier provider over a directory of labeled photos and reports recyclable and
+ * material accuracy, a per-material confusion matrix and latency. Results go through the same
+ * taxonomy mapping as /api/scans/analyze, so the numbers describe what users would see.
+ *
+ *   npm run eval:classifier -- eval/fixtures --record=eval/recording.json   # live run, saved
+ *   npm run eval:classifier -- eval/fixtures --replay=eval/recording.json   # offline rerun
+ *   npm run eval:classifier -- eval/fixtures --min-accuracy=0.9 --out=report.json
+ *   npm run eval:classifier -- eval/fixtures --prompt=scan-v1 --record=eval/scan-v1.json  # A/B a prompt
+ *
+ * The directory needs a labels.json: { "images": [{ "file", "materialId", "recyclable" }] }, with
+ * file relative to the directory. --min-accuracy / --min-material-accuracy exit non-zero when the
+ * run scores below them, so a prompt change can be gated on the result.
+ */
+
+var fs = require('fs');
+var path = require('path');
+var { getClassifier, toClassifierError } = require('../lib/classifier');
+var { createRecordingProvider, createReplayProvider } = require('../lib/classifier/replay');
+var { applyTaxonomy, findMaterial } = require('../lib/materials');
+
+var MIME_TYPES = { '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp' };
+var ERROR_COLUMN = '(error)';
+
+function readOption(name) {
+  var prefix = '--' + name + '=';
+  var arg = process.argv.find(function(value) { return value.startsWith(prefix); });
+  return arg ? arg.slice(prefix.length) : undefined;
+}
+
+function readThreshold(name) {
+  var value = readOption(name);
+  if (value === undefined) return undefined;
+  var threshold = Number(value);
+  if (!(threshold >= 0 && threshold <= 1)) {
+    throw new Error('--' + name + ' needs a number between 0 and 1');
+  }
+  return threshold;
+}
+
+function loadLabels(dir) {
+  var manifest = JSON.parse(fs.readFileSync(path.join(dir, 'labels.json'), 'utf8'));
+  return manifest.images.map(function(label) {
+    if (!findMaterial(label.materialId)) {
+      throw new Error(label.file + ': unknown material "' + label.materialId + '"');
+    }
+    if (typeof label.recyclable !== 'boolean') {
+      throw new Error(label.file + ': "recyclable" must be true or false');
+    }
+    var mimeType = MIME_TYPES[path.extname(label.file).toLowerCase()];
+    if (!mimeType) {
+      throw new Error(label.file + ': only ' + Object.keys(MIME_TYPES).join(', ') + ' images are supported');
+    }
+    return Object.assign({}, label, { mimeType: mimeType });
+  });
+}
+
+function percentile(sorted, p) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+async function evaluate(dir, labels, provider, context) {
+  var outcomes = [];
+  // One at a time, so latency isn't skewed by our own concurrent requests
+  for (var label of labels) {
+    var image = { mimeType: label.mimeType, data: fs.readFileSync(path.join(dir, label.file)).toString('base64') };
+    var startedAt = Date.now();
+    var outcome = { file: label.file, expected: { materialId: label.materialId, recyclable: label.recyclable } };
+    try {
+      var result = applyTaxonomy(await provider.classify(image, context));
+      outcome.predicted = { materialId: result.materialId, recyclable: result.recyclable, object: result.object };
+      outcome.modelRecyclable = result.classifierRecyclable !== undefined ? result.classifierRecyclable : result.recyclable;
+      outcome.confidence = result.confidence;
+      outcome.promptVersion = result.promptVersion || null;
+    } catch (err) {
+      outcome.error = toClassifierError(err).kind;
+    }
+    outcome.ms = provider.latencyFor ? provider.latencyFor(image) : Date.now() - startedAt;
+    outcomes.push(outcome);
+    process.stderr.write('.');
+  }
+  process.stderr.write('\n');
+  return outcomes;
+}
+
+function summarize(outcomes, providerId) {
+  var count = function(predicate) { return outcomes.filter(predicate).length; };
+  var total = outcomes.length;
+  var latencies = outcomes.map(function(outcome) { return outcome.ms; })
+    .filter(function(ms) { return ms !== undefined; })
+    .sort(function(a, b) { return a - b; });
+
+  // Failed calls count as wrong answers: a user who hits an error doesn't get a verdict either
+  var confusion = {};
+  outcomes.forEach(function(outcome) {
+    var row = confusion[outcome.expected.materialId] = confusion[outcome.expected.materialId] || {};
+    var column = outcome.error ? ERROR_COLUMN : outcome.predicted.materialId;
+    row[column] = (row[column] || 0) + 1;
+  });
+
+  var errors = {};
+  var promptVersions = {};
+  outcomes.forEach(function(outcome) {
+    if (outcome.error) errors[outcome.error] = (errors[outcome.error] || 0) + 1;
+    if (outcome.promptVersion) promptVersions[outcome.promptVersion] = (promptVersions[outcome.promptVersion] || 0) + 1;
+  });
+
+  return {
+    provider: providerId,
+    promptVersions: promptVersions,
+    images: total,
+    recyclableAccuracy: count(function(o) { return !o.error && o.predicted.recyclable === o.expected.recyclable; }) / total,
+    modelRecyclableAccuracy: count(function(o) { return !o.error && o.modelRecyclable === o.expected.recyclable; }) / total,
+    materialAccuracy: count(function(o) { return !o.error && o.predicted.materialId === o.expected.materialId; }) / total,
+    errors: errors,
+    latencyMs: {
+      mean: latencies.length ? Math.round(latencies.reduce(function(sum, ms) { return sum + ms; }, 0) / latencies.length) : 0,
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95),
+      max: latencies.length ? latencies[latencies.length - 1] : 0
+    },
+    confusion: confusion,
+    outcomes: outcomes
+  };
+}
+
+function formatPercent(value) {
+  return (value * 100).toFixed(1) + '%';
+}
+
+// Rows are the labeled material, columns what was predicted; columns are numbered to keep it narrow
+function formatConfusion(confusion) {
+  var rows = Object.keys(confusion).sort();
+  var columns = new Set(rows);
+  rows.forEach(function(row) {
+    Object.keys(confusion[row]).forEach(function(column) { columns.add(column); });
+  });
+  columns = Array.from(columns).sort();
+  var width = Math.max.apply(null, rows.map(function(row) { return row.length; }));
+
+  var lines = ['Confusion matrix (rows: labeled, columns: predicted)'];
+  columns.forEach(function(column, i) {
+    lines.push('  [' + (i + 1) + '] ' + column);
+  });
+  lines.push(''.padEnd(width + 2) + columns.map(function(column, i) { return String(i + 1).padStart(4); }).join(''));
+  rows.forEach(function(row) {
+    lines.push('  ' + row.padEnd(width) + columns.map(function(column) {
+      return String(confusion[row][column] || '.').padStart(4);
+    }).join(''));
+  });
+  return lines.join('\n');
+}
+
+function printReport(report) {
+  console.log('Provider:                ' + report.provider);
+  console.log('Prompt versions:         ' + (Object.keys(report.promptVersions).join(', ') || 'n/a'));
+  console.log('Images:                  ' + report.images);
+  console.log('Recyclable accuracy:     ' + formatPercent(report.recyclableAccuracy) +
+    ' (model alone: ' + formatPercent(report.modelRecyclableAccuracy) + ')');
+  console.log('Material accuracy:       ' + formatPercent(report.materialAccuracy));
+  console.log('Errors:                  ' + (Object.keys(report.errors).map(function(kind) {
+    return kind + ' ' + report.errors[kind];
+  }).join(', ') || 'none'));
+  console.log('Latency (ms):            mean ' + report.latencyMs.mean + ', p50 ' + report.latencyMs.p50 +
+    ', p95 ' + report.latencyMs.p95 + ', max ' + report.latencyMs.max);
+  console.log('');
+  console.log(formatConfusion(report.confusion));
+}
+
+async function main() {
+  var dir = process.argv.slice(2).find(function(arg) { return !arg.startsWith('--'); }) || path.join(__dirname, '..', 'eval', 'fixtures');
+  var recordPath = readOption('record');
+  var replayPath = readOption('replay');
+  var outPath = readOption('out');
+  var minAccuracy = readThreshold('min-accuracy');
+  var minMaterialAccuracy = readThreshold('min-material-accuracy');
+
+  if (recordPath && replayPath) {
+    throw new Error('Use either --record or --replay, not both');
+  }
+
+  var labels = loadLabels(dir);
+  if (labels.length === 0) {
+    throw new Error('No labeled images in ' + path.join(dir, 'labels.json'));
+  }
+
+  var provider = replayPath
+    ? createReplayProvider(JSON.parse(fs.readFileSync(replayPath, 'utf8')))
+    : getClassifier(readOption('provider'));
+  if (recordPath) {
+    provider = createRecordingProvider(provider);
+  }
+
+  // Replays answer whatever was recorded; --prompt and --language only matter for live runs
+  var context = { promptVersion: readOption('prompt'), language: readOption('language') };
+  var report = summarize(await evaluate(dir, labels, provider, context), provider.id);
+  printReport(report);
+
+  if (recordPath) {
+    fs.writeFileSync(recordPath, JSON.stringify(provider, null, 2) + '\n');
+    console.error('Recorded ' + labels.length + ' responses to ' + recordPath);
+  }
+  if (outPath) {
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  var failures = [];
+  if (minAccuracy !== undefined && report.recyclableAccuracy < minAccuracy) {
+    failures.push('recyclable accuracy ' + formatPercent(report.recyclableAccuracy) + ' is below ' + formatPercent(minAccuracy));
+  }
+  if (minMaterialAccuracy !== undefined && report.materialAccuracy < minMaterialAccuracy) {
+    failures.push('material accuracy ' + formatPercent(report.materialAccuracy) + ' is below ' + formatPercent(minMaterialAccuracy));
+  }
+  if (failures.length > 0) {
+    console.error('\nEvaluation failed: ' + failures.join('; '));
+    process.exit(1);
+  }
+}
+
+main().catch(function(err) {
+  console.error('Evaluation failed:', err.message);
+  process.exit(1);
+});
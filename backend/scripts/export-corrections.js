@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+/**
+ * Exports user corrections as a labeled dataset (one JSON object per line) for evaluating
+ * classifiers: what the classifier said next to what the user says the item really is.
+ *
+ *   npm run export:corrections                                  # all corrections to stdout
+ *   npm run export:corrections -- --since=2026-10-01 --out=corrections.jsonl
+ *
+ * Photos are referenced by their Storage path and disappear after SCAN_IMAGE_RETENTION_DAYS,
+ * so export before then if the images are needed.
+ */
+
+var fs = require('fs');
+var { db } = require('../lib/firebase');
+
+function readOption(name) {
+  var prefix = '--' + name + '=';
+  var arg = process.argv.find(function(value) { return value.startsWith(prefix); });
+  return arg ? arg.slice(prefix.length) : undefined;
+}
+
+function toExample(snap) {
+  var scan = snap.data();
+  // Scans live at users/{uid}/scans/{scanId}
+  var uid = snap.ref.parent.parent.id;
+
+  return {
+    scanId: snap.id,
+    image: scan.imageId ? 'scans/' + uid + '/' + scan.imageId + '/full.jpg' : null,
+    barcode: scan.barcode || null,
+    classifier: scan.classifier,
+    mode: scan.mode,
+    confidence: scan.confidence,
+    prediction: scan.classifierVerdict,
+    label: {
+      material: scan.correction.material,
+      materialId: scan.correction.materialId,
+      recyclable: scan.correction.recyclable
+    },
+    regionId: scan.regionId || null,
+    taxonomyVersion: scan.taxonomyVersion || null,
+    createdAt: scan.createdAt ? scan.createdAt.toDate().toISOString() : null,
+    correctedAt: scan.correction.correctedAt.toDate().toISOString()
+  };
+}
+
+async function main() {
+  var since = readOption('since');
+  var out = readOption('out');
+
+  var from = since ? new Date(since) : new Date(0);
+  if (isNaN(from.getTime())) {
+    throw new Error('--since needs a date like 2026-10-01');
+  }
+
+  var snaps = await db.collectionGroup('scans')
+    .where('correction.correctedAt', '>=', from)
+    .orderBy('correction.correctedAt')
+    .get();
+  var lines = snaps.docs.map(function(snap) {
+    return JSON.stringify(toExample(snap));
+  });
+  var body = lines.length ? lines.join('\n') + '\n' : '';
+
+  if (out) {
+    fs.writeFileSync(out, body);
+    console.error('Wrote ' + lines.length + ' corrections to ' + out);
+  } else {
+    process.stdout.write(body);
+  }
+}
+
+main().catch(function(err) {
+  console.error('Export failed:', err);
+  process.exit(1);
+});
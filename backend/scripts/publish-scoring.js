@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Validates a scoring rules file and writes it to config/scoring, where the backend and the web app
+ * pick it up within a minute - no redeploy needed.
+ *
+ *   npm run publish:scoring                                 # data/scoring.json
+ *   npm run publish:scoring -- --file=earth-week.json --dry-run
+ *
+ * Bump "version" with every change; scan records store the version they were scored with.
+ */
+
+var fs = require('fs');
+var path = require('path');
+var { db } = require('../lib/firebase');
+var { validateRules } = require('../lib/scoring');
+
+function readOption(name) {
+  var prefix = '--' + name + '=';
+  var arg = process.argv.find(function(value) { return value.startsWith(prefix); });
+  return arg ? arg.slice(prefix.length) : undefined;
+}
+
+async function main() {
+  var file = readOption('file') || path.join(__dirname, '..', 'data', 'scoring.json');
+  var dryRun = process.argv.includes('--dry-run');
+  var rules = validateRules(JSON.parse(fs.readFileSync(file, 'utf8')));
+
+  var ref = db.collection('config').doc('scoring');
+  var current = await ref.get();
+  if (current.exists && current.get('version') >= rules.version) {
+    throw new Error('config/scoring is already at version ' + current.get('version') + ' - bump "version" in ' + file);
+  }
+
+  if (dryRun) {
+    console.log('Rules version ' + rules.version + ' are valid; nothing was written (--dry-run)');
+    return;
+  }
+  await ref.set(rules);
+  console.log('Published scoring rules version ' + rules.version);
+}
+
+main().catch(function(err) {
+  console.error('Publish failed:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * Deletes scan photos older than SCAN_IMAGE_RETENTION_DAYS and unlinks them from their scan
+ * records, which stay in history without a picture. Run it daily (cron, Cloud Scheduler...):
+ *
+ *   npm run purge:images            # delete
+ *   npm run purge:images -- --dry-run
+ */
+
+var { bucket, db } = require('../lib/firebase');
+var { RETENTION_DAYS } = require('../lib/scanImages');
+
+var dryRun = process.argv.includes('--dry-run');
+
+// Files are stored as scans/{uid}/{imageId}/{size}.jpg
+function parsePath(name) {
+  var parts = name.split('/');
+  if (parts.length !== 4 || parts[0] !== 'scans') return undefined;
+  return { uid: parts[1], imageId: parts[2] };
+}
+
+async function unlinkRecords(uid, imageId) {
+  var records = await db.collection('users').doc(uid).collection('scans').where('imageId', '==', imageId).get();
+  if (records.empty) return 0;
+
+  var batch = db.batch();
+  records.docs.forEach(function(snap) {
+    batch.update(snap.ref, { imageId: null });
+  });
+  await batch.commit();
+  return records.size;
+}
+
+async function main() {
+  var cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  var [files] = await bucket.getFiles({ prefix: 'scans/' });
+
+  var expired = files.filter(function(file) {
+    return new Date(file.metadata.timeCreated).getTime() < cutoff;
+  });
+  var images = new Map();
+  expired.forEach(function(file) {
+    var location = parsePath(file.name);
+    if (location) images.set(location.uid + '/' + location.imageId, location);
+  });
+
+  console.log((dryRun ? '[dry run] ' : '') + 'Found ' + expired.length + ' files in ' + images.size +
+    ' images older than ' + RETENTION_DAYS + ' days');
+  if (dryRun) return;
+
+  var unlinked = 0;
+  // Unlink first so history never points at a deleted photo
+  for (var location of images.values()) {
+    unlinked += await unlinkRecords(location.uid, location.imageId);
+  }
+  await Promise.all(expired.map(function(file) {
+    return file.delete({ ignoreNotFound: true });
+  }));
+
+  console.log('Deleted ' + expired.length + ' files and unlinked ' + unlinked + ' scan records');
+}
+
+main().catch(function(err) {
+  console.error('Purge failed:', err);
+  process.exit(1);
+});
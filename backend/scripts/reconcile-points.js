@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+/**
+ * Rebuilds users/{uid}.points and itemsRecycled from the points ledger (lib/ledger.js) and reports
+ * every user whose totals had drifted. Users who earned points before the ledger existed get a
+ * one-off opening_balance entry for what they have, so their totals stay as they are. A full run
+ * also recounts users into stats/users, which the app shows next to the all-time leaderboard.
+ *
+ *   npm run reconcile:points
+ *   npm run reconcile:points -- --uid=abc123 --dry-run
+ */
+
+var { admin, db } = require('../lib/firebase');
+var { REASONS, ledgerCollection, ledgerEntry, appendLedger, adminActor } = require('../lib/ledger');
+
+var AggregateField = admin.firestore.AggregateField;
+
+var dryRun = process.argv.includes('--dry-run');
+
+function readOption(name) {
+  var prefix = '--' + name + '=';
+  var arg = process.argv.find(function(value) { return value.startsWith(prefix); });
+  return arg ? arg.slice(prefix.length) : undefined;
+}
+
+/**
+ * Compares one user's totals with their ledger in a transaction, so a scan awarded while the
+ * script runs can't be counted twice. Returns what was found: 'ok', 'opened' or 'drifted'.
+ */
+
+async function reconcileUser(uid) {
+  var userRef = db.collection('users').doc(uid);
+
+  return db.runTransaction(async function(tx) {
+    var snap = await tx.get(userRef);
+    var totals = await tx.get(ledgerCollection(uid).aggregate({
+      entries: AggregateField.count(),
+      points: AggregateField.sum('amount'),
+      itemsRecycled: AggregateField.sum('itemsRecycled')
+    }));
+    var ledger = totals.data();
+    var points = snap.get('points') || 0;
+    var itemsRecycled = snap.get('itemsRecycled') || 0;
+
+    if (ledger.entries === 0) {
+      if (points === 0 && itemsRecycled === 0) return 'ok';
+      console.log(uid + ': no ledger, opening balance of ' + points + ' points and ' + itemsRecycled + ' items');
+      if (!dryRun) {
+        appendLedger(tx, uid, [ledgerEntry({
+          amount: points,
+          itemsRecycled: itemsRecycled,
+          reason: REASONS.OPENING_BALANCE,
+          actor: adminActor('reconcile-points')
+        })]);
+      }
+      return 'opened';
+    }
+
+    if (ledger.points === points && ledger.itemsRecycled === itemsRecycled) return 'ok';
+    console.log(uid + ': points ' + points + ' -> ' + ledger.points + ', itemsRecycled ' + itemsRecycled + ' -> ' + ledger.itemsRecycled);
+    if (!dryRun) {
+      tx.update(userRef, { points: ledger.points, itemsRecycled: ledger.itemsRecycled });
+    }
+    return 'drifted';
+  });
+}
+
+async function main() {
+  var uid = readOption('uid');
+  var uids = uid ? [uid] : (await db.collection('users').select().get()).docs.map(function(snap) { return snap.id; });
+
+  var counts = { ok: 0, opened: 0, drifted: 0 };
+  // One user at a time; each is its own small transaction
+  for (var id of uids) {
+    counts[await reconcileUser(id)] += 1;
+  }
+
+  if (!uid) {
+    var stats = db.collection('stats').doc('users');
+    var counted = (await stats.get()).get('count');
+    if (counted !== uids.length) {
+      console.log('stats/users: count ' + counted + ' -> ' + uids.length);
+      if (!dryRun) await stats.set({ count: uids.length });
+    }
+  }
+
+  console.log((dryRun ? '[dry run] ' : '') + 'Checked ' + uids.length + ' users: ' + counts.ok + ' matched their ledger, ' +
+    counts.drifted + ' ' + (dryRun ? 'need' : 'had') + ' their totals rebuilt, ' + counts.opened + ' ' +
+    (dryRun ? 'need' : 'got') + ' an opening balance');
+}
+
+main().catch(function(err) {
+  console.error('Reconcile failed:', err);
+  process.exit(1);
+});
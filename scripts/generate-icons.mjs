@@ -0,0 +1,42 @@
+// scripts/generate-icons.mjs
+// Renders the PWA icons in public/icons/ from the app logo (src/assets/ecoscan_icon_alt3_500px.svg).
+// Run it after changing the logo and commit the result:
+//
+//   npm run generate:icons
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { generateMaskableAsset, generateTransparentAsset } from "@vite-pwa/assets-generator/api";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const source = join(root, "src/assets/ecoscan_icon_alt3_500px.svg");
+const outDir = join(root, "public/icons");
+
+// The manifest's background_color, so maskable and home-screen icons blend into the splash screen
+const BACKGROUND = "#f0fdf4";
+
+// Maskable and Apple icons are cropped to a circle or rounded square, so the logo keeps to the
+// middle; padding is the share of the icon left around it
+const ICONS = [
+  { file: "icon-192.png", size: 192, padding: 0.05 },
+  { file: "icon-512.png", size: 512, padding: 0.05 },
+  { file: "icon-maskable-512.png", size: 512, padding: 0.3, background: BACKGROUND },
+  { file: "apple-touch-icon.png", size: 180, padding: 0.2, background: BACKGROUND },
+];
+
+const image = await readFile(source);
+await mkdir(outDir, { recursive: true });
+
+for (const icon of ICONS) {
+  const options = {
+    padding: icon.padding,
+    resizeOptions: { fit: "contain", background: icon.background ?? "transparent" },
+    outputOptions: { compressionLevel: 9, quality: 80 },
+  };
+  const asset = icon.background
+    ? await generateMaskableAsset("png", image, icon.size, options)
+    : await generateTransparentAsset("png", image, icon.size, options);
+  await writeFile(join(outDir, icon.file), await asset.toBuffer());
+  console.log(`public/icons/${icon.file}`);
+}
@@ -0,0 +1,52 @@
+// src/api/client.ts
+
+import { auth } from "../firebase/firebaseConfig";
+
+// Origin of the EcoScan backend; empty string means same origin (the Vite dev server proxies /api)
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "";
+
+export class ApiError extends Error {
+  status: number; // 0 when the request never got a response
+  kind: string | null;
+
+  constructor(status: number, message: string, kind: string | null = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+// Sends a request to the backend as the signed-in user and returns the parsed JSON response
+const request = async <T>(method: "GET" | "POST", path: string, body?: unknown): Promise<T> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new ApiError(401, "You need to be signed in");
+  }
+  const idToken = await user.getIdToken();
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (err) {
+    throw new ApiError(0, "Could not reach the EcoScan server", "network");
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = payload?.error;
+    throw new ApiError(response.status, error?.message || response.statusText, error?.kind ?? null);
+  }
+  return payload as T;
+};
+
+export const getJson = <T>(path: string) => request<T>("GET", path);
+
+export const postJson = <T>(path: string, body: unknown) => request<T>("POST", path, body);
@@ -0,0 +1,31 @@
+// src/api/regions.ts
+
+import { getJson } from "./client";
+
+export interface Region {
+  id: string;
+  name: string;
+}
+
+export interface UserLocation {
+  lat: number;
+  lon: number;
+}
+
+// RecyclingMap caches the last position it looked up here; scans reuse it instead of asking again
+const LOCATION_KEY = "userLocation";
+
+export const getCachedLocation = (): UserLocation | undefined => {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(LOCATION_KEY) ?? "null");
+    return saved && typeof saved.lat === "number" && typeof saved.lon === "number" ? saved : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Regions with local recycling rules, plus the one containing location (if any)
+export const listRegions = (location?: UserLocation) =>
+  getJson<{ regions: Region[]; detected: string | null }>(
+    location ? `/api/regions?lat=${location.lat}&lon=${location.lon}` : "/api/regions"
+  );
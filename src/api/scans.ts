@@ -0,0 +1,77 @@
+// src/api/scans.ts
+
+import { ApiError, getJson, postJson } from "./client";
+import { getCachedLocation } from "./regions";
+import type { ClassificationResult, RecordedScan } from "../classifier";
+
+export interface ScanCorrection {
+  material: string;
+  recyclable: boolean;
+}
+
+export type ScanImageSize = "thumb" | "full";
+
+// Barcode match from the product table; material is the packaging
+export interface ProductResult extends ClassificationResult {
+  material: string;
+}
+
+interface ScanImageUrl {
+  url: string;
+  expiresAt: number;
+}
+
+// Refetch a little before the URL actually expires so an <img> never gets a dead link
+const URL_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const imageUrls = new Map<string, Promise<ScanImageUrl>>();
+
+// Awards a scan that was waiting for the user. Points are decided by the server
+export const confirmScan = async (scanId: string, correction?: ScanCorrection) => {
+  const { scan } = await postJson<{ scan: RecordedScan }>(`/api/scans/${encodeURIComponent(scanId)}/confirm`, {
+    correction,
+  });
+  return scan;
+};
+
+// Disputes any saved scan ("This is wrong"). The server re-scores it; corrections never add points
+// to a scan that was already awarded
+export const correctScan = async (scanId: string, correction: ScanCorrection) => {
+  const { scan } = await postJson<{ scan: RecordedScan }>(`/api/scans/${encodeURIComponent(scanId)}/correction`, {
+    correction,
+  });
+  return scan;
+};
+
+// Short-lived URL for a scan's stored photo, cached until shortly before it expires
+export const getScanImageUrl = async (scanId: string, size: ScanImageSize) => {
+  const key = `${scanId}:${size}`;
+  const cached = imageUrls.get(key);
+  if (cached) {
+    const { url, expiresAt } = await cached.catch(() => ({ url: "", expiresAt: 0 }));
+    if (url && expiresAt - URL_EXPIRY_MARGIN_MS > Date.now()) return url;
+  }
+
+  const pending = getJson<ScanImageUrl>(`/api/scans/${encodeURIComponent(scanId)}/image?size=${size}`);
+  imageUrls.set(key, pending);
+  try {
+    return (await pending).url;
+  } catch (err) {
+    imageUrls.delete(key);
+    throw err;
+  }
+};
+
+// Looks up a product barcode; resolves to null when the product isn't in the backend's table
+export const scanBarcode = async (code: string) => {
+  try {
+    const { result } = await postJson<{ result: ProductResult }>("/api/scans/barcode", {
+      code,
+      location: getCachedLocation(),
+    });
+    return result;
+  } catch (err) {
+    if (err instanceof ApiError && err.kind === "unknown_product") return null;
+    throw err;
+  }
+};
@@ -0,0 +1,44 @@
+// src/classifier/api.ts
+
+import { ApiError, postJson } from "../api/client";
+import { getCachedLocation } from "../api/regions";
+import { ClassifierError, type ClassifierErrorKind } from "./errors";
+import type { ClassificationResult, ClassifierImage, ClassifierProvider, ClassifyOptions, DetectedItem } from "./types";
+
+const KINDS: ClassifierErrorKind[] = ["blocked", "no_object", "quota", "network", "invalid_response", "unknown"];
+
+const kindFor = (err: ApiError): ClassifierErrorKind => {
+  if (err.kind && KINDS.includes(err.kind as ClassifierErrorKind)) return err.kind as ClassifierErrorKind;
+  if (err.status === 429) return "quota";
+  if (err.status === 0 || err.status === 502 || err.status === 503 || err.status === 504) return "network";
+  return "unknown";
+};
+
+// Classifies through POST /api/scans/analyze so the model key stays on the server.
+// The backend also saves each result as a scan record and awards points, reported in result.scan.
+// A cached location lets it apply local recycling rules when the user hasn't picked a region
+export const createApiProvider = (): ClassifierProvider => {
+  const analyze = async <T>(image: ClassifierImage, mode: "single" | "multi", options?: ClassifyOptions) => {
+    try {
+      return await postJson<T>("/api/scans/analyze", {
+        image: image.data,
+        mimeType: image.mimeType,
+        mode,
+        location: options ? options.location : getCachedLocation(),
+        // The backend writes the item name and explanations in this language
+        language: navigator.language,
+      });
+    } catch (err) {
+      if (err instanceof ApiError) {
+        throw new ClassifierError(kindFor(err), err.message, { cause: err });
+      }
+      throw err;
+    }
+  };
+
+  return {
+    id: "api",
+    classify: async (image, options) => (await analyze<{ result: ClassificationResult }>(image, "single", options)).result,
+    detectItems: async (image, options) => (await analyze<{ items: DetectedItem[] }>(image, "multi", options)).items,
+  };
+};
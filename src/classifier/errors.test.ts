@@ -0,0 +1,35 @@
+// src/classifier/errors.test.ts
+
+import { describe, expect, it } from "vitest";
+import { ClassifierError, describeClassifierError, toClassifierError } from "./errors";
+
+describe("toClassifierError", () => {
+  it("keeps classifier errors as they are", () => {
+    const err = new ClassifierError("no_object", "Nothing there");
+    expect(toClassifierError(err)).toBe(err);
+  });
+
+  it("maps rate limits to quota errors", () => {
+    expect(toClassifierError(Object.assign(new Error("Too many requests"), { status: 429 })).kind).toBe("quota");
+    expect(toClassifierError(new Error("Resource exhausted")).kind).toBe("quota");
+  });
+
+  it("maps failed requests and blocked images", () => {
+    expect(toClassifierError(new TypeError("Failed to fetch")).kind).toBe("network");
+    expect(toClassifierError(new Error("Response was blocked due to SAFETY")).kind).toBe("blocked");
+  });
+
+  it("keeps the original error as the cause", () => {
+    const original = new Error("Something odd");
+    const err = toClassifierError(original);
+    expect(err.kind).toBe("unknown");
+    expect(err.cause).toBe(original);
+  });
+});
+
+describe("describeClassifierError", () => {
+  it("explains every error in words the user can act on", () => {
+    expect(describeClassifierError(new ClassifierError("no_object", "Nothing there"))).toMatch(/couldn't find an item/);
+    expect(describeClassifierError("not even an error")).toBe("Image analysis failed. Please try again.");
+  });
+});
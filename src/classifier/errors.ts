@@ -0,0 +1,52 @@
+// src/classifier/errors.ts
+// Kinds match backend/lib/classifier/errors.js, which the API reports in error.kind
+
+export type ClassifierErrorKind =
+  | "blocked" // the model refused the image (safety filters)
+  | "no_object" // nothing recognizable in the photo
+  | "quota" // rate limited or out of quota
+  | "network" // request never reached the model
+  | "invalid_response" // answer could not be turned into a result, even after repair
+  | "unknown";
+
+export class ClassifierError extends Error {
+  kind: ClassifierErrorKind;
+
+  constructor(kind: ClassifierErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ClassifierError";
+    this.kind = kind;
+  }
+}
+
+export const isClassifierError = (err: unknown): err is ClassifierError => err instanceof ClassifierError;
+
+// Best-effort mapping of SDK / fetch failures onto our error kinds
+export const toClassifierError = (err: unknown): ClassifierError => {
+  if (isClassifierError(err)) return err;
+
+  const status = typeof err === "object" && err !== null && "status" in err ? err.status : undefined;
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+    return new ClassifierError("quota", message, { cause: err });
+  }
+  if ((typeof navigator !== "undefined" && navigator.onLine === false) || /failed to fetch|network|load failed/i.test(message)) {
+    return new ClassifierError("network", message, { cause: err });
+  }
+  if (/safety|blocked/i.test(message)) {
+    return new ClassifierError("blocked", message, { cause: err });
+  }
+  return new ClassifierError("unknown", message, { cause: err });
+};
+
+const ERROR_MESSAGES: Record<ClassifierErrorKind, string> = {
+  blocked: "This photo couldn't be analyzed because it was flagged by content filters. Try a photo of just the item.",
+  no_object: "We couldn't find an item in this photo. Center the item in good light and try again.",
+  quota: "EcoScan is getting a lot of scans right now. Please wait a minute and try again.",
+  network: "You appear to be offline. Check your connection and try again.",
+  invalid_response: "We couldn't read the analysis for this photo. Please try again.",
+  unknown: "Image analysis failed. Please try again.",
+};
+
+export const describeClassifierError = (err: unknown) => ERROR_MESSAGES[toClassifierError(err).kind];
@@ -0,0 +1,65 @@
+// src/classifier/index.ts
+
+import { createApiProvider } from "./api";
+import { createMockProvider } from "./mock";
+import type { ClassificationResult, ClassifierFactory, ClassifierImage, ClassifierProvider } from "./types";
+
+export type {
+  BoundingBox,
+  ClassificationResult,
+  ClassifierImage,
+  ClassifierProvider,
+  ClassifyOptions,
+  DetectedItem,
+  RecordedScan,
+  RegionRule,
+  ScoreBreakdown,
+} from "./types";
+export { ClassifierError, describeClassifierError, isClassifierError, toClassifierError } from "./errors";
+export type { ClassifierErrorKind } from "./errors";
+
+const DEFAULT_PROVIDER = "api";
+
+// The backend decides which scans need the user to confirm or correct them before points are awarded
+// (its LOW_CONFIDENCE_THRESHOLD). Unsaved results (mock provider) earn nothing, so there is nothing to confirm
+export const needsConfirmation = (result: ClassificationResult) => result.scan?.status === "needs_confirmation";
+
+const registry: Record<string, ClassifierFactory> = {
+  api: () => createApiProvider(),
+  mock: () => createMockProvider(),
+};
+
+const instances = new Map<string, ClassifierProvider>();
+
+// Lets tests or demos plug in their own provider under a new (or existing) id
+export const registerClassifier = (id: string, factory: ClassifierFactory) => {
+  registry[id] = factory;
+  instances.delete(id);
+};
+
+// Returns the provider selected by VITE_CLASSIFIER_PROVIDER (defaults to the backend API).
+// The model itself runs server-side; "mock" skips the backend entirely for offline demos.
+export const getClassifier = (id: string = import.meta.env.VITE_CLASSIFIER_PROVIDER || DEFAULT_PROVIDER) => {
+  const existing = instances.get(id);
+  if (existing) return existing;
+
+  const factory = registry[id];
+  if (!factory) {
+    throw new Error(`Unknown classifier provider "${id}". Available: ${Object.keys(registry).join(", ")}`);
+  }
+
+  const provider = factory();
+  instances.set(id, provider);
+  return provider;
+};
+
+export const fileToClassifierImage = (file: File) =>
+  new Promise<ClassifierImage>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      resolve({ mimeType: file.type, data: dataUrl.split(",")[1] }); // remove data URI prefix
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
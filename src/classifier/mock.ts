@@ -0,0 +1,80 @@
+// src/classifier/mock.ts
+
+import type { BoundingBox, ClassificationResult, ClassifierProvider } from "./types";
+
+// Fixed answers so tests and offline demos see the same verdict for the same photo
+const SAMPLE_RESULTS: ClassificationResult[] = [
+  {
+    object: "Plastic water bottle",
+    recyclable: true,
+    reason: "PET #1 plastic is accepted by most curbside programs.",
+    instructions: "Empty and rinse the bottle, put the cap back on, and place it in the recycling bin.",
+    confidence: 0.94,
+  },
+  {
+    object: "Aluminum soda can",
+    recyclable: true,
+    reason: "Aluminum can be recycled indefinitely without losing quality.",
+    instructions: "Rinse out any liquid and place the can in the recycling bin. No need to crush it.",
+    confidence: 0.91,
+  },
+  {
+    object: "Cardboard box",
+    recyclable: true,
+    reason: "Clean corrugated cardboard is widely recycled.",
+    instructions: "Remove tape and packing material, flatten the box, and keep it dry.",
+    confidence: 0.88,
+  },
+  {
+    object: "Chip bag",
+    recyclable: false,
+    reason: "Multi-layer foil and plastic film cannot be separated by most facilities.",
+    instructions: "Put it in the trash, or look for a dedicated snack-wrapper take-back program.",
+    confidence: 0.55,
+  },
+  {
+    object: "Styrofoam cup",
+    recyclable: false,
+    reason: "Expanded polystyrene is rarely accepted curbside.",
+    instructions: "Dispose of it in the trash and switch to a reusable cup.",
+    confidence: 0.79,
+  },
+];
+
+const SAMPLE_MATERIALS = ["PET plastic", "Aluminum", "Corrugated cardboard", "Metallized plastic film", "Polystyrene foam"];
+
+// Non-overlapping slots for multi-item answers
+const SAMPLE_BOXES: BoundingBox[] = [
+  { x: 0.05, y: 0.1, width: 0.28, height: 0.5 },
+  { x: 0.38, y: 0.3, width: 0.25, height: 0.4 },
+  { x: 0.68, y: 0.15, width: 0.27, height: 0.6 },
+];
+
+// Small string hash (FNV-1a) so the pick depends only on the image bytes
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createMockProvider = (latencyMs = 400): ClassifierProvider => ({
+  id: "mock",
+  classify: async (image) => {
+    await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    const pick = SAMPLE_RESULTS[hashString(image.data) % SAMPLE_RESULTS.length];
+    return { ...pick };
+  },
+  detectItems: async (image) => {
+    await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    const hash = hashString(image.data);
+    const count = 2 + (hash % 2);
+
+    return SAMPLE_BOXES.slice(0, count).map((box, i) => {
+      const index = (hash + i) % SAMPLE_RESULTS.length;
+      return { ...SAMPLE_RESULTS[index], material: SAMPLE_MATERIALS[index], box };
+    });
+  },
+});
@@ -0,0 +1,100 @@
+// src/classifier/types.ts
+
+import type { UserLocation } from "../api/regions";
+
+// Image payload handed to a classifier: raw base64 (no data URI prefix) plus its MIME type
+export interface ClassifierImage {
+  mimeType: string;
+  data: string;
+}
+
+// Scan record the backend saved for a result, with its award decision
+export interface RecordedScan {
+  scanId: string;
+  // "duplicate": the same photo was scanned recently, so it earns nothing
+  status: "awarded" | "needs_confirmation" | "duplicate";
+  pointsEarned: number;
+  // Set when the daily points cap trimmed the award
+  dailyCapReached?: boolean;
+  alreadyAwarded?: boolean;
+  // Change to the user's points from a correction; negative when an awarded scan was re-scored
+  pointsAdjustment?: number;
+  // How pointsEarned was worked out (before the daily cap), for awarded scans
+  scoring?: ScoreBreakdown;
+}
+
+// Mirrors the breakdown backend/lib/scoring.js stores on each awarded scan
+export interface ScoreBreakdown {
+  rulesVersion: number;
+  // The verdict that was scored, which picks the base points
+  recyclable: boolean;
+  materialId: string;
+  base: number;
+  categoryBonus: number;
+  // Difficulty level name and the multiplier it stood for (1 when the material has no level)
+  difficulty: string | null;
+  difficultyMultiplier: number;
+  discoveryBonus: number;
+  streakDays: number;
+  streakMultiplier: number;
+  events: { id: string; name: string; multiplier: number }[];
+}
+
+// Local recycling rule the backend applied for the user's region
+export interface RegionRule {
+  regionId: string;
+  regionName: string;
+  note: string;
+}
+
+// What every provider returns for a scanned item
+export interface ClassificationResult {
+  object: string;
+  recyclable: boolean;
+  reason?: string;
+  instructions?: string;
+  // 0-1 estimate that the object and the recyclable verdict are both right
+  confidence: number;
+  // Entry in the backend's material taxonomy (backend/data/materials.json), e.g. "pet-1".
+  // Only the api provider maps results onto it
+  materialId?: string;
+  materialName?: string;
+  // e.g. "fire", "toxic", "sharp"
+  hazards?: string[];
+  // Canonical preparation steps for the material; instructions is the same text joined up
+  steps?: string[];
+  // The local rule that decided the verdict, when the user's region has one for this material
+  regionRule?: RegionRule;
+  // Only set when the result was saved server-side (the api provider)
+  scan?: RecordedScan;
+}
+
+// Position of a detected item as fractions (0-1) of the image width/height, origin top-left
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One of several items found in a multi-item photo
+export interface DetectedItem extends ClassificationResult {
+  // e.g. "PET plastic", "Aluminum" - the object name alone is often not enough to sort by
+  material?: string;
+  box: BoundingBox;
+}
+
+// Where the photo was taken, for local recycling rules. Queued scans pass what was known when they
+// were taken, even if that was nothing; without options the provider looks the location up itself
+export interface ClassifyOptions {
+  location: UserLocation | undefined;
+}
+
+export interface ClassifierProvider {
+  id: string;
+  classify: (image: ClassifierImage, options?: ClassifyOptions) => Promise<ClassificationResult>;
+  // Multi-item mode: every distinct item in the photo, e.g. the contents of a recycling bag
+  detectItems: (image: ClassifierImage, options?: ClassifyOptions) => Promise<DetectedItem[]>;
+}
+
+export type ClassifierFactory = () => ClassifierProvider;
@@ -0,0 +1,58 @@
+import { useEffect, type RefObject } from "react";
+import { Button } from "./ui/button";
+import { Camera, Loader2, ScanBarcode } from "lucide-react";
+import { startBarcodeScanner } from "../lib/barcode";
+import toast from "react-hot-toast";
+
+interface BarcodeScanPanelProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  stream: MediaStream | null;
+  isLookingUp: boolean;
+  onCode: (code: string) => void;
+  onTakePhoto: () => void;
+  // The device can't decode barcodes, so the camera should go back to taking photos
+  onUnavailable: () => void;
+}
+
+// Barcode mode of the camera: decodes product codes from the live video until one is found
+export function BarcodeScanPanel({ videoRef, stream, isLookingUp, onCode, onTakePhoto, onUnavailable }: BarcodeScanPanelProps) {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!stream || !video) return;
+
+    let stopScanner: (() => void) | undefined;
+    let cancelled = false;
+    startBarcodeScanner(video, onCode)
+      .then((stop) => {
+        if (cancelled) stop();
+        else stopScanner = stop;
+      })
+      .catch((err) => {
+        console.error("Barcode scanner failed to start:", err);
+        toast.error("Barcode scanning isn't available on this device. Take a photo instead.");
+        onUnavailable();
+      });
+
+    return () => {
+      cancelled = true;
+      stopScanner?.();
+    };
+  }, [stream]);
+
+  return (
+    <div className="space-y-3">
+      <p className="flex items-center justify-center gap-2 text-sm text-gray-600">
+        {isLookingUp ? (
+          <Loader2 className="h-4 w-4 animate-spin text-green-600" />
+        ) : (
+          <ScanBarcode className="h-4 w-4 text-green-600" />
+        )}
+        {isLookingUp ? "Looking up product..." : "Point the camera at the product's barcode"}
+      </p>
+      <Button onClick={onTakePhoto} variant="outline" className="w-full" disabled={isLookingUp}>
+        <Camera className="mr-2 h-4 w-4" />
+        Take Photo Instead
+      </Button>
+    </div>
+  );
+}
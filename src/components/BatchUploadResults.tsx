@@ -0,0 +1,212 @@
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import { CheckCircle, XCircle, HelpCircle, Copy, CloudOff, AlertTriangle, Loader2, RotateCcw } from "lucide-react";
+import { needsConfirmation, type ClassificationResult } from "../classifier";
+import type { ImageQualityIssue } from "../lib/imagePreprocessing";
+import { isBatchItemSettled, type BatchItem, type BatchItemStatus, type BatchUpload } from "../hooks/useBatchUpload";
+import toast from "react-hot-toast";
+
+interface BatchUploadResultsProps {
+  batch: BatchUpload;
+}
+
+// There is no byte-level upload progress, so each stage of the pipeline moves the bar along
+const STAGE_PROGRESS: Record<BatchItemStatus, number> = {
+  queued: 0,
+  preparing: 25,
+  analyzing: 60,
+  done: 100,
+  failed: 100,
+  offline: 100,
+};
+
+const STAGE_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Waiting...",
+  preparing: "Preparing photo...",
+  analyzing: "Analyzing...",
+  done: "Done",
+  failed: "Failed",
+  offline: "Saved for when you're back online",
+};
+
+const QUALITY_MESSAGES: Record<ImageQualityIssue, string> = {
+  dark: "Looks too dark to identify. Retry to send it anyway.",
+  blurry: "Looks blurry. Retry to send it anyway.",
+};
+
+const resultSummary = (result: ClassificationResult) => {
+  if (!result.scan) return "Demo mode • not saved";
+  if (result.scan.status === "duplicate") return "Already scanned • 0 pts";
+  if (needsConfirmation(result)) return "Needs a check before points are awarded";
+  return `${result.scan.pointsEarned} pts`;
+};
+
+const ResultRow = ({ result, onConfirm }: { result: ClassificationResult; onConfirm: () => void }) => (
+  <div className="flex items-center justify-between gap-2 text-sm">
+    <div className="min-w-0">
+      <p className={`truncate ${result.recyclable ? "text-green-900" : "text-red-900"}`}>
+        {result.recyclable ? (
+          <CheckCircle className="inline h-3.5 w-3.5 mr-1 text-green-600" />
+        ) : (
+          <XCircle className="inline h-3.5 w-3.5 mr-1 text-red-600" />
+        )}
+        {result.object}
+      </p>
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        {result.scan?.status === "duplicate" && <Copy className="h-3 w-3" />}
+        {resultSummary(result)}
+      </p>
+    </div>
+    {needsConfirmation(result) && result.scan && (
+      <Button size="sm" variant="outline" className="h-7 flex-shrink-0" onClick={onConfirm}>
+        <HelpCircle className="mr-1 h-3 w-3" />
+        Looks right
+      </Button>
+    )}
+  </div>
+);
+
+const BatchItemRow = ({
+  item,
+  onRetry,
+  onConfirm,
+}: {
+  item: BatchItem;
+  onRetry: () => void;
+  onConfirm: (resultIndex: number) => void;
+}) => (
+  <div
+    className={`flex gap-3 p-2 rounded-lg border ${
+      item.status === "failed" ? "border-amber-300 bg-amber-50" : "bg-gray-50"
+    }`}
+  >
+    <div className="h-14 w-14 flex-shrink-0 overflow-hidden rounded-md bg-gray-200">
+      <img src={item.previewUrl} alt={item.name} className="h-full w-full object-cover" />
+    </div>
+    <div className="flex-1 min-w-0 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <p className="truncate text-xs text-gray-500">{item.name}</p>
+        {item.status === "failed" && (
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onRetry}>
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Retry
+          </Button>
+        )}
+      </div>
+
+      {!isBatchItemSettled(item) && (
+        <>
+          <Progress value={STAGE_PROGRESS[item.status]} className="h-1.5" />
+          <p className="flex items-center gap-1 text-xs text-gray-500">
+            {item.status !== "queued" && <Loader2 className="h-3 w-3 animate-spin" />}
+            {STAGE_LABELS[item.status]}
+          </p>
+        </>
+      )}
+
+      {item.status === "failed" && (
+        <p className="flex items-start gap-1 text-xs text-amber-900 break-words">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {item.qualityIssue ? QUALITY_MESSAGES[item.qualityIssue] : item.error}
+        </p>
+      )}
+
+      {item.status === "offline" && (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <CloudOff className="h-3 w-3" />
+          {STAGE_LABELS.offline}
+        </p>
+      )}
+
+      {item.status === "done" && item.results?.length === 0 && (
+        <p className="text-xs text-gray-500">No items found in this photo</p>
+      )}
+      {item.status === "done" &&
+        item.results?.map((result, index) => (
+          <ResultRow key={index} result={result} onConfirm={() => onConfirm(index)} />
+        ))}
+    </div>
+  </div>
+);
+
+// Progress for every photo in a batch upload, then a summary of what they added up to
+export function BatchUploadResults({ batch }: BatchUploadResultsProps) {
+  const { items } = batch;
+  const settled = items.filter(isBatchItemSettled).length;
+  const finished = settled === items.length;
+  const failed = items.filter((item) => item.status === "failed").length;
+  const offline = items.filter((item) => item.status === "offline").length;
+  const results = items.flatMap((item) => (item.status === "done" ? item.results ?? [] : []));
+  const recyclable = results.filter((result) => result.recyclable).length;
+  const unsure = results.filter((result) => result.scan && needsConfirmation(result)).length;
+  const points = results.reduce(
+    (sum, result) => sum + (result.scan?.status === "awarded" ? result.scan.pointsEarned : 0),
+    0
+  );
+
+  const confirmItem = async (id: string, resultIndex: number) => {
+    try {
+      const scan = await batch.confirmItem(id, resultIndex);
+      if (scan) {
+        toast.success(`♻️ Item confirmed! You earned ${scan.pointsEarned} points!`);
+      }
+    } catch (err) {
+      console.error("Error confirming scan:", err);
+      toast.error("Could not confirm this item. Please try again.");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {finished ? (
+        <div className="p-4 rounded-lg border-2 border-green-500 bg-green-50 space-y-2">
+          <p className="text-green-900">
+            Analyzed {items.length - failed - offline} of {items.length} {items.length === 1 ? "photo" : "photos"}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Badge className="bg-green-600">{points} points earned</Badge>
+            <Badge variant="outline">
+              {recyclable} of {results.length} {results.length === 1 ? "item" : "items"} recyclable
+            </Badge>
+            {unsure > 0 && <Badge variant="outline">{unsure} need a check</Badge>}
+            {offline > 0 && <Badge variant="outline">{offline} waiting for a connection</Badge>}
+            {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Analyzing {items.length} {items.length === 1 ? "photo" : "photos"} — {settled} done
+          </p>
+          <Progress value={items.length ? (settled / items.length) * 100 : 0} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {items.map((item) => (
+          <BatchItemRow
+            key={item.id}
+            item={item}
+            onRetry={() => batch.retryItem(item.id)}
+            onConfirm={(resultIndex) => confirmItem(item.id, resultIndex)}
+          />
+        ))}
+      </div>
+
+      {finished && (
+        <div className="flex gap-2">
+          {failed > 0 && (
+            <Button onClick={batch.retryFailed} variant="outline" className="flex-1">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry Failed
+            </Button>
+          )}
+          <Button onClick={batch.clear} className="flex-1 bg-green-600 hover:bg-green-700">
+            Done
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Camera } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { BarcodeScanPanel } from "./BarcodeScanPanel";
+import { LiveScanPanel } from "./LiveScanPanel";
+import type { LiveScanEntry } from "./LiveScanTally";
+import { fitWithin, MAX_IMAGE_DIMENSION } from "../lib/imagePreprocessing";
+import toast from "react-hot-toast";
+
+// "live" classifies every new item held still in front of the camera, without a tap
+type CameraMode = "photo" | "barcode" | "live";
+
+const CAMERA_TITLES: Record<CameraMode, string> = {
+  photo: "Take a Photo",
+  barcode: "Scan a Barcode",
+  live: "Live Scan",
+};
+
+interface CameraDialogProps {
+  onCapture: (photo: File) => void;
+  // Looks the product up; the dialog shows it as busy until the returned promise settles
+  onBarcode: (code: string, frame: File | null) => Promise<void>;
+  onClose: () => void;
+}
+
+// Camera popup with photo, barcode and live modes. Opens the camera on mount and stops it on unmount
+export function CameraDialog({ onCapture, onBarcode, onClose }: CameraDialogProps) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraMode>("photo");
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const [liveEntries, setLiveEntries] = useState<LiveScanEntry[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let mediaStream: MediaStream | undefined;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((opened) => {
+        mediaStream = opened;
+        if (cancelled) opened.getTracks().forEach(track => track.stop());
+        else setStream(opened);
+      })
+      .catch((err) => {
+        console.error('Error accessing camera:', err);
+        alert('Camera access denied or not available');
+        onClose();
+      });
+
+    return () => {
+      cancelled = true;
+      mediaStream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (stream && videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Sums up a live session before the camera goes away
+  const close = () => {
+    if (liveEntries.length > 0) {
+      const points = liveEntries.reduce(
+        (sum, entry) => sum + (entry.scan?.status === "awarded" ? entry.scan.pointsEarned : 0),
+        0
+      );
+      toast.success(`♻️ Live scan sorted ${liveEntries.length} items and earned ${points} points!`);
+    }
+    onClose();
+  };
+
+  // Grabs the current camera frame as a JPEG file
+  const captureFrame = () =>
+    new Promise<File | null>((resolve) => {
+      if (!videoRef.current || !canvasRef.current) return resolve(null);
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas.getContext('2d');
+
+      if (!context) return resolve(null);
+
+      // Capture at the upload size rather than the camera's full resolution
+      const size = fitWithin(video.videoWidth, video.videoHeight, MAX_IMAGE_DIMENSION);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      context.drawImage(video, 0, 0, size.width, size.height);
+
+      canvas.toBlob((blob) => {
+        resolve(blob && new File([blob], `photo-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+      }, 'image/jpeg', 0.8);
+    });
+
+  const capturePhoto = async () => {
+    const file = await captureFrame();
+    if (file) {
+      onCapture(file);
+      close();
+    }
+  };
+
+  const handleBarcode = async (code: string) => {
+    setIsLookingUpBarcode(true);
+    const frame = await captureFrame();
+    try {
+      await onBarcode(code, frame);
+    } finally {
+      setIsLookingUpBarcode(false);
+      close();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">{CAMERA_TITLES[cameraMode]}</h3>
+          <Button
+            onClick={close}
+            variant="ghost"
+            size="sm"
+          >
+            ✕
+          </Button>
+        </div>
+
+        <Tabs
+          value={cameraMode}
+          onValueChange={(value: string) => setCameraMode(value as CameraMode)}
+          className="mb-4"
+        >
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="photo">Photo</TabsTrigger>
+            <TabsTrigger value="barcode">Barcode</TabsTrigger>
+            <TabsTrigger value="live">Live</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {/* Live Camera Feed */}
+        <div className="relative bg-black rounded-lg overflow-hidden mb-4">
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className="w-full h-64 object-cover"
+            onLoadedMetadata={() => {
+              if (videoRef.current) {
+                videoRef.current.play().catch(console.error);
+              }
+            }}
+          />
+        </div>
+
+        {/* Hidden canvas for capture */}
+        <canvas ref={canvasRef} className="hidden" />
+
+        {cameraMode === "live" ? (
+          <LiveScanPanel
+            videoRef={videoRef}
+            stream={stream}
+            captureFrame={captureFrame}
+            entries={liveEntries}
+            onEntry={(entry) => setLiveEntries((entries) => [entry, ...entries])}
+          />
+        ) : cameraMode === "barcode" ? (
+          <BarcodeScanPanel
+            videoRef={videoRef}
+            stream={stream}
+            isLookingUp={isLookingUpBarcode}
+            onCode={handleBarcode}
+            onTakePhoto={capturePhoto}
+            onUnavailable={() => setCameraMode("photo")}
+          />
+        ) : (
+          /* Capture Button */
+          <Button
+            onClick={capturePhoto}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            Capture Photo
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { HelpCircle } from "lucide-react";
+import { CorrectionForm } from "./CorrectionForm";
+import type { ClassificationResult } from "../classifier";
+import type { ScanCorrection } from "../api/scans";
+
+interface ConfirmScanPromptProps {
+  scan: ClassificationResult;
+  onConfirm: () => Promise<void>;
+  onCorrect: (correction: ScanCorrection) => Promise<void>;
+}
+
+// "Are you sure?" step for unsure results: points wait until the user confirms or corrects the verdict
+export function ConfirmScanPrompt({ scan, onConfirm, onCorrect }: ConfirmScanPromptProps) {
+  const [isCorrecting, setIsCorrecting] = useState(false);
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <HelpCircle className="h-5 w-5 text-amber-600 mt-0.5" />
+        <div>
+          <p className="text-amber-900">Are you sure?</p>
+          <p className="text-amber-800 text-sm">
+            We're not confident about this one. Confirm or correct the material to collect your points.
+          </p>
+        </div>
+      </div>
+
+      {isCorrecting ? (
+        <CorrectionForm initialMaterial={scan.object} initialRecyclable={scan.recyclable} onSubmit={onCorrect} />
+      ) : (
+        <div className="flex gap-2">
+          <Button onClick={onConfirm} className="flex-1 bg-green-600 hover:bg-green-700">
+            Yes, that's right
+          </Button>
+          <Button onClick={() => setIsCorrecting(true)} variant="outline" className="flex-1">
+            No, correct it
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import toast from "react-hot-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { CorrectionForm } from "./CorrectionForm";
+import { correctScan, type ScanCorrection } from "../api/scans";
+import type { RecordedScan } from "../classifier";
+
+export interface DisputedScan {
+  scanId: string;
+  material: string;
+  recyclable: boolean;
+}
+
+interface CorrectScanDialogProps {
+  scan: DisputedScan | null;
+  onClose: () => void;
+  onCorrected?: (correction: ScanCorrection, scan: RecordedScan) => void;
+}
+
+const describeAdjustment = ({ pointsAdjustment = 0 }: RecordedScan) => {
+  if (pointsAdjustment > 0) return `Thanks! You earned ${pointsAdjustment} points.`;
+  if (pointsAdjustment < 0) return `Thanks for the correction. This scan now counts for ${Math.abs(pointsAdjustment)} fewer points.`;
+  return "Thanks for the correction! It helps us improve.";
+};
+
+// "This is wrong": sends the right material and verdict for a saved scan
+export function CorrectScanDialog({ scan, onClose, onCorrected }: CorrectScanDialogProps) {
+  const submit = async (correction: ScanCorrection) => {
+    if (!scan) return;
+    try {
+      const recorded = await correctScan(scan.scanId, correction);
+      toast.success(describeAdjustment(recorded));
+      onCorrected?.(correction, recorded);
+      onClose();
+    } catch (err) {
+      console.error("Error saving correction:", err);
+      toast.error("Could not save your correction. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={scan !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>What is this item really?</DialogTitle>
+          <DialogDescription>
+            Corrections are reviewed to improve scanning. They never add points to a scan that was already awarded.
+          </DialogDescription>
+        </DialogHeader>
+        {scan && (
+          <CorrectionForm
+            key={scan.scanId}
+            initialMaterial={scan.material}
+            initialRecyclable={scan.recyclable}
+            onSubmit={submit}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
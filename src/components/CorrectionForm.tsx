@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import type { ScanCorrection } from "../api/scans";
+
+interface CorrectionFormProps {
+  initialMaterial: string;
+  initialRecyclable: boolean;
+  onSubmit: (correction: ScanCorrection) => Promise<void>;
+}
+
+// Material name plus a recyclable toggle, for confirming unsure scans and disputing wrong ones
+export function CorrectionForm({ initialMaterial, initialRecyclable, onSubmit }: CorrectionFormProps) {
+  const [material, setMaterial] = useState(initialMaterial);
+  const [recyclable, setRecyclable] = useState(initialRecyclable);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async () => {
+    if (!material.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({ material: material.trim(), recyclable });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input value={material} onChange={(e) => setMaterial(e.target.value)} placeholder="What is this item?" />
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant={recyclable ? "default" : "outline"}
+          size="sm"
+          className="flex-1"
+          onClick={() => setRecyclable(true)}
+        >
+          Recyclable
+        </Button>
+        <Button
+          type="button"
+          variant={recyclable ? "outline" : "destructive"}
+          size="sm"
+          className="flex-1"
+          onClick={() => setRecyclable(false)}
+        >
+          Not Recyclable
+        </Button>
+      </div>
+      <Button
+        onClick={submit}
+        disabled={!material.trim() || isSaving}
+        className="w-full bg-green-600 hover:bg-green-700"
+      >
+        {isSaving ? "Saving..." : "Save Correction"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { CheckCircle, XCircle, HelpCircle } from "lucide-react";
+import type { DetectedItem } from "../classifier";
+
+export type DetectedItemStatus = "awarded" | "pending" | "skipped" | "duplicate";
+
+export interface DetectedItemState {
+  item: DetectedItem;
+  status: DetectedItemStatus;
+}
+
+interface DetectedItemsResultProps {
+  previewImage: string;
+  items: DetectedItemState[];
+  onConfirm: (index: number) => void;
+  onSkip: (index: number) => void;
+}
+
+const boxBorder = (item: DetectedItem) => (item.recyclable ? "border-green-500" : "border-red-500");
+const boxFill = (item: DetectedItem) => (item.recyclable ? "bg-green-500" : "bg-red-500");
+
+export function DetectedItemsResult({ previewImage, items, onConfirm, onSkip }: DetectedItemsResultProps) {
+  const recyclableCount = items.filter(({ item }) => item.recyclable).length;
+
+  return (
+    <div className="space-y-4">
+      {/* Preview with one box per detected item. The image keeps its aspect ratio so box fractions line up */}
+      <div className="relative rounded-lg overflow-hidden bg-gray-100">
+        <img src={previewImage} alt="Analyzed items" className="w-full h-auto block" />
+        {items.map(({ item, status }, index) => (
+          <div
+            key={index}
+            className={`absolute border-2 rounded-sm ${boxBorder(item)} ${status === "skipped" ? "opacity-30" : ""}`}
+            style={{
+              left: `${item.box.x * 100}%`,
+              top: `${item.box.y * 100}%`,
+              width: `${item.box.width * 100}%`,
+              height: `${item.box.height * 100}%`,
+            }}
+          >
+            <span className={`absolute -top-px -left-px px-1.5 text-xs text-white rounded-br-sm ${boxFill(item)}`}>
+              {index + 1}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Found {items.length} {items.length === 1 ? "item" : "items"} — {recyclableCount} recyclable
+      </p>
+
+      <div className="space-y-2">
+        {items.map(({ item, status }, index) => (
+          <div
+            key={index}
+            className={`p-3 rounded-lg border ${
+              item.recyclable ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"
+            } ${status === "skipped" ? "opacity-50" : ""}`}
+          >
+            <div className="flex items-start gap-3">
+              <span
+                className={`flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full text-xs text-white ${boxFill(item)}`}
+              >
+                {index + 1}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={`text-sm truncate ${item.recyclable ? "text-green-900" : "text-red-900"}`}>{item.object}</p>
+                    {item.material && <p className="text-xs text-gray-500">{item.material}</p>}
+                  </div>
+                  <Badge variant={item.recyclable ? "default" : "destructive"} className="flex-shrink-0 text-xs h-5">
+                    {item.recyclable ? <CheckCircle className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
+                    {item.recyclable ? "Recyclable" : "Not Recyclable"}
+                  </Badge>
+                </div>
+                {(item.instructions || item.reason) && (
+                  <p className={`text-xs mt-1 break-words ${item.recyclable ? "text-green-800" : "text-red-800"}`}>
+                    {item.instructions || item.reason}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Confidence: {Math.round(item.confidence * 100)}%</p>
+
+                {status === "pending" && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <HelpCircle className="h-4 w-4 text-amber-600 flex-shrink-0" />
+                    <span className="text-xs text-amber-800 flex-1">Are you sure?</span>
+                    <Button size="sm" className="h-7 bg-green-600 hover:bg-green-700" onClick={() => onConfirm(index)}>
+                      Yes
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => onSkip(index)}>
+                      Skip
+                    </Button>
+                  </div>
+                )}
+                {status === "skipped" && <p className="text-xs text-gray-500 mt-1">Skipped — no points awarded</p>}
+                {status === "duplicate" && (
+                  <p className="text-xs text-amber-700 mt-1">Already scanned recently — no points awarded</p>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
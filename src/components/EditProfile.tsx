@@ -4,9 +4,15 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Avatar, AvatarFallback } from "./ui/avatar";
 import { Alert, AlertDescription } from "./ui/alert";
-import { User, Mail, IdCard, Key, CheckCircle, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { User, Mail, IdCard, Key, CheckCircle, X, MapPin, LocateFixed } from "lucide-react";
 import { sendPasswordReset } from "../firebase/auth";
-import { useState } from "react";
+import { getRecyclingRegion, setRecyclingRegion } from "../firebase/db";
+import { getCachedLocation, listRegions, type Region } from "../api/regions";
+import { useEffect, useState } from "react";
+
+// Select items can't have an empty value, so "go by location" gets its own
+const AUTO_REGION = "auto";
 
 interface EditProfileProps {
   userEmail: string;
@@ -20,6 +26,68 @@ export function EditProfile({ userEmail, currentUserId, userInitials, userName,
   const [resetEmailSent, setResetEmailSent] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
   const [resetError, setResetError] = useState<string | null>(null);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [region, setRegion] = useState(AUTO_REGION);
+  const [regionMessage, setRegionMessage] = useState<string | null>(null);
+  const [isDetectingRegion, setIsDetectingRegion] = useState(false);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    Promise.all([listRegions(getCachedLocation()), getRecyclingRegion(currentUserId)])
+      .then(([{ regions, detected }, saved]) => {
+        setRegions(regions);
+        setRegion(saved ?? AUTO_REGION);
+        if (!saved && detected) {
+          setRegionMessage(`Using ${regions.find((r) => r.id === detected)?.name} rules based on your location.`);
+        }
+      })
+      .catch((error) => console.error("Error loading recycling regions:", error));
+  }, [currentUserId]);
+
+  const handleRegionChange = async (value: string) => {
+    const previous = region;
+    setRegion(value);
+    setRegionMessage(null);
+    try {
+      await setRecyclingRegion(currentUserId, value === AUTO_REGION ? null : value);
+    } catch (error) {
+      console.error("Error saving recycling region:", error);
+      setRegion(previous);
+      setRegionMessage("Couldn't save your region. Please try again.");
+    }
+  };
+
+  const handleDetectRegion = () => {
+    if (!navigator.geolocation) {
+      setRegionMessage("Geolocation is not supported by this browser.");
+      return;
+    }
+
+    setIsDetectingRegion(true);
+    setRegionMessage(null);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          const { detected } = await listRegions({ lat: position.coords.latitude, lon: position.coords.longitude });
+          if (detected) {
+            await handleRegionChange(detected);
+          } else {
+            setRegionMessage("There are no local rules for your area yet, so general guidance applies.");
+          }
+        } catch (error) {
+          console.error("Error detecting recycling region:", error);
+          setRegionMessage("Couldn't detect your region. Please pick it from the list.");
+        } finally {
+          setIsDetectingRegion(false);
+        }
+      },
+      () => {
+        setIsDetectingRegion(false);
+        setRegionMessage("Unable to retrieve your location. Please check your browser settings.");
+      }
+    );
+  };
 
   const handleResetPassword = async () => {
     setIsResetting(true);
@@ -116,6 +184,46 @@ export function EditProfile({ userEmail, currentUserId, userInitials, userName,
         </CardContent>
       </Card>
 
+      {/* Recycling Region Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-green-600" />
+            Recycling Region
+          </CardTitle>
+          <CardDescription>
+            What's recyclable depends on your local program
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Select value={region} onValueChange={handleRegionChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Choose your region" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_REGION}>Based on my location</SelectItem>
+              {regions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleDetectRegion}
+            disabled={isDetectingRegion}
+            variant="outline"
+            className="w-full"
+          >
+            <LocateFixed className="h-4 w-4 mr-2" />
+            {isDetectingRegion ? "Detecting..." : "Detect My Region"}
+          </Button>
+          <p className="text-xs text-gray-500">
+            {regionMessage ?? "Scan results follow your region's rules when it has any."}
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Password Reset Section */}
       <Card>
         <CardHeader>
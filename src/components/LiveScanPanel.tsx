@@ -0,0 +1,54 @@
+import { useEffect, useState, type RefObject } from "react";
+import { LiveScanTally, type LiveScanEntry, type LiveScanHint } from "./LiveScanTally";
+import { getClassifier, fileToClassifierImage, describeClassifierError, isClassifierError } from "../classifier";
+import { watchForStableItems } from "../lib/liveScan";
+import { preprocessImage } from "../lib/imagePreprocessing";
+import toast from "react-hot-toast";
+
+interface LiveScanPanelProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  stream: MediaStream | null;
+  captureFrame: () => Promise<File | null>;
+  entries: LiveScanEntry[];
+  onEntry: (entry: LiveScanEntry) => void;
+}
+
+// Live mode of the camera: classifies each new item without interrupting the user. Unsure results
+// stay unconfirmed (no points) instead of stopping the session for an "Are you sure?" step
+export function LiveScanPanel({ videoRef, stream, captureFrame, entries, onEntry }: LiveScanPanelProps) {
+  const [hint, setHint] = useState<LiveScanHint>("empty");
+
+  const classifyFrame = async () => {
+    const frame = await captureFrame();
+    if (!frame) return;
+
+    setHint("analyzing");
+    try {
+      const processed = await preprocessImage(frame);
+      // Too dark or blurry: skip it, the next still frame will be tried once the item moves
+      if (processed.quality.issue) return;
+
+      const parsed = await getClassifier().classify(await fileToClassifierImage(processed.file));
+      onEntry({
+        id: parsed.scan?.scanId ?? crypto.randomUUID(),
+        material: parsed.object,
+        recyclable: parsed.recyclable,
+        scan: parsed.scan,
+      });
+    } catch (err) {
+      if (isClassifierError(err) && err.kind === "no_object") return;
+      console.error("Live scan error:", err);
+      toast.error(describeClassifierError(err));
+    }
+  };
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!stream || !video) return;
+
+    setHint("empty");
+    return watchForStableItems(video, classifyFrame, setHint);
+  }, [stream]);
+
+  return <LiveScanTally entries={entries} hint={hint} />;
+}
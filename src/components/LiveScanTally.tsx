@@ -0,0 +1,79 @@
+import { CheckCircle, XCircle, Loader2, Move, ScanLine, Repeat } from "lucide-react";
+import type { RecordedScan } from "../classifier";
+import type { LiveScanState } from "../lib/liveScan";
+
+export interface LiveScanEntry {
+  id: string;
+  material: string;
+  recyclable: boolean;
+  // Missing for results that were never saved (mock provider)
+  scan?: RecordedScan;
+}
+
+export type LiveScanHint = LiveScanState | "analyzing";
+
+interface LiveScanTallyProps {
+  entries: LiveScanEntry[];
+  hint: LiveScanHint;
+}
+
+const HINTS: Record<LiveScanHint, { icon: typeof Move; text: string }> = {
+  moving: { icon: Move, text: "Hold the item still..." },
+  empty: { icon: ScanLine, text: "Show the next item to the camera" },
+  same: { icon: Repeat, text: "Got it! Swap in the next item" },
+  ready: { icon: ScanLine, text: "Scanning..." },
+  analyzing: { icon: Loader2, text: "Analyzing..." },
+};
+
+const entryLabel = ({ scan }: LiveScanEntry) => {
+  if (!scan) return "Demo";
+  if (scan.status === "duplicate") return "Duplicate";
+  if (scan.status === "needs_confirmation") return "Unsure — no points";
+  return `+${scan.pointsEarned} pts`;
+};
+
+export function LiveScanTally({ entries, hint }: LiveScanTallyProps) {
+  const recyclableCount = entries.filter((entry) => entry.recyclable).length;
+  const points = entries.reduce((sum, entry) => sum + (entry.scan?.status === "awarded" ? entry.scan.pointsEarned : 0), 0);
+  const { icon: HintIcon, text } = HINTS[hint];
+
+  return (
+    <div className="space-y-3">
+      <p className="flex items-center justify-center gap-2 text-sm text-gray-600">
+        <HintIcon className={`h-4 w-4 text-green-600 ${hint === "analyzing" ? "animate-spin" : ""}`} />
+        {text}
+      </p>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-lg text-gray-900">{entries.length}</p>
+          <p className="text-xs text-gray-500">Items</p>
+        </div>
+        <div className="rounded-lg bg-green-50 p-2">
+          <p className="text-lg text-green-700">{recyclableCount}</p>
+          <p className="text-xs text-gray-500">Recyclable</p>
+        </div>
+        <div className="rounded-lg bg-emerald-50 p-2">
+          <p className="text-lg text-emerald-700">{points}</p>
+          <p className="text-xs text-gray-500">Points</p>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-2 text-sm">
+              {entry.recyclable ? (
+                <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-600" />
+              ) : (
+                <XCircle className="h-4 w-4 flex-shrink-0 text-red-600" />
+              )}
+              <span className="flex-1 truncate text-gray-900">{entry.material}</span>
+              <span className="text-xs text-gray-500">{entryLabel(entry)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,9 +7,9 @@ import { EditProfile } from "./EditProfile";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Button } from "./ui/button";
 import { Avatar, AvatarFallback } from "./ui/avatar";
-import { useState, useEffect } from "react";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../firebase/firestoreConfig";
+import { useState } from "react";
+import { useUserProfile } from "../hooks/useUserProfile";
+import { nameInitials } from "../lib/leaderboards";
 
 import logoUrl from "../assets/ecoscan_icon_alt3_500px.svg";
 
@@ -36,54 +36,19 @@ const LogoutButton = ({ onLogout }: { onLogout: () => void }) => (
 
 export function MainApp({ userEmail, onLogout, currentUserId }: MainAppProps) {
   const [activeTab, setActiveTab] = useState("scan");
-  const [userInitials, setUserInitials] = useState("??");
-  const [userName, setUserName] = useState("");
-  
-  // Fetch user data from Firebase
-  useEffect(() => {
-    if (!currentUserId) return;
+  const { profile, loading } = useUserProfile(currentUserId);
 
-    const fetchUserData = async () => {
-      try {
-        const userRef = doc(db, "users", currentUserId);
-        const userSnap = await getDoc(userRef);
-        
-        if (userSnap.exists()) {
-          const userData = userSnap.data();
-          const name = userData.name || userEmail || "User";
-          setUserName(name);
-          
-          // Generate initials from name
-          const initials = name
-            .split(' ')
-            .map((n: string) => n[0])
-            .join('')
-            .toUpperCase()
-            .substring(0, 2);
-          
-          setUserInitials(initials);
-        } else {
-          // Fallback to email-based initials
-          const emailInitials = userEmail
-            .split('@')[0]
-            .substring(0, 2)
-            .toUpperCase();
-          setUserInitials(emailInitials);
-        }
-      } catch (error) {
-        console.error("Error fetching user data:", error);
-        // Fallback to email-based initials
-        const emailInitials = userEmail
+  // Initials from the email until the profile exists
+  const userName = profile ? profile.name || userEmail || "User" : "";
+  const userInitials = profile
+    ? nameInitials(userName)
+    : loading
+      ? "??"
+      : userEmail
           .split('@')[0]
           .substring(0, 2)
           .toUpperCase();
-        setUserInitials(emailInitials);
-      }
-    };
 
-    fetchUserData();
-  }, [currentUserId, userEmail]);
-  
   return (
     <div className="min-h-screen bg-gradient-to-b from-green-50 to-emerald-50">
       <div className="max-w-4xl mx-auto p-4 pb-8">
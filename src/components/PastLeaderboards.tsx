@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Medal, History } from "lucide-react";
+import { getPastLeaderboards } from "../firebase/db";
+import { describePastLeaderboard, type LeaderboardPeriodType, type PastLeaderboard } from "../lib/leaderboards";
+
+interface PastLeaderboardsProps {
+  type: LeaderboardPeriodType;
+  currentUserId: string;
+}
+
+// Finished periods listed under the board
+const PAST_PERIODS = 4;
+
+const MEDAL_COLORS = ["text-yellow-500", "text-gray-400", "text-amber-600"];
+
+// Winners of the last few weeks or months, once backend/scripts/close-leaderboards.js has archived them
+export function PastLeaderboards({ type, currentUserId }: PastLeaderboardsProps) {
+  const [boards, setBoards] = useState<PastLeaderboard[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPastLeaderboards(type, PAST_PERIODS)
+      .then((past) => {
+        if (!cancelled) setBoards(past);
+      })
+      .catch((error) => console.error("Error fetching past leaderboards:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [type]);
+
+  if (boards.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-green-600" />
+          Past Winners
+        </CardTitle>
+        <CardDescription>Top recyclers of the last few {type === "weekly" ? "weeks" : "months"}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {boards.map((board) => (
+          <div key={board.id} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-700">{describePastLeaderboard(board)}</p>
+              <p className="text-xs text-gray-500">
+                {board.participants} {board.participants === 1 ? "recycler" : "recyclers"}
+              </p>
+            </div>
+            {board.winners.length === 0 && <p className="text-xs text-gray-500">Nobody scored this time</p>}
+            {board.winners.map((winner) => (
+              <div key={winner.uid} className="flex items-center justify-between text-sm">
+                <span className={`flex items-center gap-2 ${winner.uid === currentUserId ? "text-green-900" : "text-gray-900"}`}>
+                  <Medal className={`h-4 w-4 ${MEDAL_COLORS[winner.rank - 1] ?? "text-gray-400"}`} />
+                  {winner.name || "Anonymous"}
+                  {winner.uid === currentUserId && " (You)"}
+                </span>
+                <span className="text-gray-500">{winner.points.toLocaleString()} pts</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, CloudOff, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import type { PendingScan } from "../lib/offlineQueue";
+
+interface PendingScansProps {
+  scans: PendingScan[];
+  isSyncing: boolean;
+  onRetry: (scan: PendingScan) => void;
+  onDiscard: (scan: PendingScan) => void;
+}
+
+const PendingScanRow = ({
+  scan,
+  isSyncing,
+  onRetry,
+  onDiscard,
+}: {
+  scan: PendingScan;
+  isSyncing: boolean;
+  onRetry: () => void;
+  onDiscard: () => void;
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(scan.image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [scan.image]);
+
+  const label = scan.mode === "multi" ? "Multi-item photo" : "Scan";
+
+  return (
+    <div
+      className={`flex items-center gap-3 p-2 rounded-lg border ${
+        scan.error ? "border-amber-300 bg-amber-50" : "border-dashed bg-gray-50"
+      }`}
+    >
+      <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded-md bg-gray-200">
+        {url && <img src={url} alt="Scan waiting to be sent" className="h-full w-full object-cover opacity-70" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        {scan.error ? (
+          <>
+            <p className="font-medium text-sm text-gray-700">{label} taken offline couldn't be analyzed</p>
+            <p className="flex items-start gap-1 mt-0.5 text-xs text-amber-900 break-words">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {scan.error}
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="font-medium text-sm text-gray-700">{label} waiting for a connection</p>
+            <p className="flex items-center gap-1 mt-0.5 text-xs text-gray-500">
+              {isSyncing ? <Loader2 className="h-3 w-3 animate-spin" /> : <CloudOff className="h-3 w-3" />}
+              {isSyncing ? "Sending..." : "Pending • points are awarded once it's analyzed"}
+            </p>
+          </>
+        )}
+      </div>
+      {scan.error && (
+        <div className="flex flex-shrink-0 gap-1">
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onRetry} disabled={isSyncing}>
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Retry
+          </Button>
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onDiscard}>
+            <Trash2 className="mr-1 h-3 w-3" />
+            Remove
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Scans taken offline, listed at the top of Scan History until they are sent. Ones the backend
+// couldn't analyze stay here so the photo isn't lost, until the user retries or removes them
+export function PendingScans({ scans, isSyncing, onRetry, onDiscard }: PendingScansProps) {
+  if (scans.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {scans.map((scan) => (
+        <PendingScanRow
+          key={scan.id}
+          scan={scan}
+          isSyncing={isSyncing}
+          onRetry={() => onRetry(scan)}
+          onDiscard={() => onDiscard(scan)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -1,40 +1,109 @@
-import { useState, useRef, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
-import { Camera, Upload, Loader2, CheckCircle, XCircle, Recycle, History, Clock, ChevronLeft, ChevronRight, ImageOff } from "lucide-react";
+import { Camera, Upload, Loader2, CheckCircle, XCircle, Recycle, AlertTriangle, MapPin, Flag } from "lucide-react";
 import { Alert, AlertDescription } from "./ui/alert";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { db } from "../firebase/firestoreConfig";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { CameraDialog } from "./CameraDialog";
+import { ConfirmScanPrompt } from "./ConfirmScanPrompt";
+import { CorrectScanDialog, type DisputedScan } from "./CorrectScanDialog";
+import { ScanHistory } from "./ScanHistory";
+import { BatchUploadResults } from "./BatchUploadResults";
+import { DetectedItemsResult, type DetectedItemState, type DetectedItemStatus } from "./DetectedItemsResult";
 import {
-  doc,
-  updateDoc,
-  increment,
-  collection,
-  addDoc,
-  serverTimestamp,
-  onSnapshot,
-  query,
-  orderBy,
-} from "firebase/firestore";
+  getClassifier,
+  fileToClassifierImage,
+  describeClassifierError,
+  needsConfirmation,
+  type ClassificationResult,
+  type DetectedItem,
+  type RecordedScan,
+  type RegionRule,
+} from "../classifier";
+import { confirmScan, scanBarcode, type ScanCorrection } from "../api/scans";
+import { preprocessImage, type ImageQualityIssue } from "../lib/imagePreprocessing";
+import type { PendingScan } from "../lib/offlineQueue";
+import { shouldQueueScan, useOfflineScanQueue } from "../hooks/useOfflineScanQueue";
+import { useScoringRules } from "../hooks/useScoringRules";
+import { activeScoringEvents, describeBonuses, describePointRules, describeScoringEvent } from "../lib/scoring";
+import { useBatchUpload, MAX_BATCH_SIZE } from "../hooks/useBatchUpload";
 import toast from "react-hot-toast";
 
-const genAI = new GoogleGenerativeAI((import.meta as any).env.VITE_GEMINI_API_KEY);
-
 interface AnalysisResult {
+  // Saved scan record; missing for the mock provider
+  scanId?: string;
   material: string;
   recyclable: boolean;
   confidence: number;
   instructions?: string;
+  // Packaging from the product table, for barcode scans
+  packaging?: string;
+  materialName?: string;
+  steps?: string[];
+  hazards?: string[];
+  regionRule?: RegionRule;
 }
 
-interface ScanHistoryItem {
-  id: string;
-  material: string;
-  recyclable: boolean;
-  timestamp: Date;
-  imageUrl?: string;
-  pointsEarned: number;
+const HAZARD_LABELS: Record<string, string> = {
+  fire: "Fire risk — never put it in a bin",
+  toxic: "Contains toxic materials",
+  sharp: "Sharp — wrap it before disposal",
+  pressurized: "Pressurized — don't puncture or crush",
+  contains_battery: "Contains a battery",
+};
+
+const toAnalysisResult = (scan: ClassificationResult): AnalysisResult => ({
+  scanId: scan.scan?.scanId,
+  material: scan.object,
+  recyclable: scan.recyclable,
+  confidence: Math.round(scan.confidence * 100),
+  instructions: scan.instructions || scan.reason,
+  materialName: scan.materialName,
+  steps: scan.steps,
+  hazards: scan.hazards,
+  regionRule: scan.regionRule,
+});
+
+// Shows the user's corrected verdict in place of the classifier's
+const applyCorrection = (result: AnalysisResult, correction: ScanCorrection): AnalysisResult => {
+  // The model's instructions were for what it thought it saw, so drop them if the verdict flipped
+  const verdictChanged = correction.recyclable !== result.recyclable;
+  return {
+    scanId: result.scanId,
+    material: correction.material,
+    recyclable: correction.recyclable,
+    confidence: result.confidence,
+    instructions: verdictChanged ? undefined : result.instructions,
+    packaging: result.packaging,
+  };
+};
+
+// A photo that failed the quality checks, kept so the user can send it anyway
+interface RetakePrompt {
+  file: File;
+  issue: ImageQualityIssue;
+}
+
+const RETAKE_MESSAGES: Record<ImageQualityIssue, string> = {
+  dark: "This photo looks too dark to identify the item. Try again with more light.",
+  blurry: "This photo looks blurry. Hold the camera steady, let it focus, and try again.",
+};
+
+interface PendingConfirmation {
+  scan: ClassificationResult;
+}
+
+type ScanMode = "single" | "multi";
+
+const detectedItemStatus = (item: DetectedItem): DetectedItemStatus => {
+  if (item.scan?.status === "duplicate") return "duplicate";
+  return needsConfirmation(item) ? "pending" : "awarded";
+};
+
+// All items found in one multi-item photo
+interface MultiItemScan {
+  items: DetectedItemState[];
 }
 
 interface PhotoAnalysisProps {
@@ -43,337 +112,306 @@ interface PhotoAnalysisProps {
 
 export function PhotoAnalysis({ currentUserId }: PhotoAnalysisProps) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [scanMode, setScanMode] = useState<ScanMode>("single");
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [multiScan, setMultiScan] = useState<MultiItemScan | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+  const [retakePrompt, setRetakePrompt] = useState<RetakePrompt | null>(null);
+  const [disputedScan, setDisputedScan] = useState<DisputedScan | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [showCamera, setShowCamera] = useState(false);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [scanHistory, setScanHistory] = useState<ScanHistoryItem[]>([]);
-  const [historyLoading, setHistoryLoading] = useState(true);
-
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 4;
-
-  useEffect(() => {
-    const maxPage = Math.max(1, Math.ceil(scanHistory.length / itemsPerPage) || 1);
-    if (currentPage > maxPage) {
-      setCurrentPage(maxPage);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const scoringRules = useScoringRules();
+
+  // Points are awarded by the backend when it records or confirms a scan; this only reports them
+  const announceAward = (recyclable: boolean, scan?: RecordedScan) => {
+    if (!scan) {
+      // The mock classifier never reaches the backend, so nothing is saved or awarded
+      toast("Demo mode: this scan wasn't saved and earned no points.", { icon: "🧪" });
+      return;
     }
-  }, [scanHistory, currentPage]);
+    if (scan.alreadyAwarded) return;
 
-  // Calculate pagination
-  const totalPages = Math.ceil(scanHistory.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const currentItems = scanHistory.slice(startIndex, endIndex);
+    if (scan.status === "duplicate") {
+      toast("🔁 You've already scanned this item recently, so this one doesn't earn points.");
+      return;
+    }
+    if (scan.dailyCapReached) {
+      toast(`🏁 You've reached today's points limit${scan.pointsEarned ? ` — this scan earned ${scan.pointsEarned} points` : ""}. Come back tomorrow!`);
+      return;
+    }
 
-  const handleNextPage = () => {
-    if (currentPage < totalPages) {
-      setCurrentPage(currentPage + 1);
+    const bonuses = describeBonuses(scan.scoring);
+    const bonusNote = bonuses.length > 0 ? ` (${bonuses.join(", ")})` : "";
+    if (recyclable) {
+      toast.success(`♻️ Scanned item is recyclable! You earned ${scan.pointsEarned} points${bonusNote}!`);
+    } else {
+      toast(`🧠 Scanned item is not recyclable — but you learned something! You earned ${scan.pointsEarned} points${bonusNote}.`, {
+        icon: "✨",
+        style: {
+          background: "#2d2d2d",
+          color: "#fff",
+        },
+      });
     }
   };
 
-  const handlePreviousPage = () => {
-    if (currentPage > 1) {
-      setCurrentPage(currentPage - 1);
+  // A scan taken offline was finally analyzed; the backend has recorded (and maybe awarded) it by now
+  const handleOfflineScanResolved = (pending: PendingScan, results: ClassificationResult[]) => {
+    if (pending.mode === "multi") {
+      const points = results.reduce((sum, item) => sum + (item.scan?.pointsEarned ?? 0), 0);
+      toast.success(`📶 Your offline photo was sorted: ${results.length} items, ${points} points.`);
+      return;
     }
-  };
 
-  const formatTimeAgo = (date: Date) => {
-    const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
-    
-    if (seconds < 60) return 'Just now';
-    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
-    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
-    if (seconds < 604800) return `${Math.floor(seconds / 86400)}d ago`;
-    return date.toLocaleDateString();
+    const [scan] = results;
+    if (needsConfirmation(scan)) {
+      toast(`📶 Your offline scan was analyzed as "${scan.object}". We weren't sure, so it's saved unconfirmed in Scan History.`);
+      return;
+    }
+    toast(`📶 Your offline scan was analyzed: ${scan.object}`);
+    announceAward(scan.recyclable, scan.scan);
   };
 
-  useEffect(() => {
-    if (!currentUserId) {
-      setScanHistory([]);
-      setHistoryLoading(false);
-      return;
+  const offlineQueue = useOfflineScanQueue(currentUserId, {
+    onResolved: handleOfflineScanResolved,
+    onFailed: (_pending, message) =>
+      toast.error(`An offline scan couldn't be analyzed. ${message} It's kept in Scan History to retry or remove.`),
+  });
+
+  const { queueScan } = offlineQueue;
+  const batch = useBatchUpload({ queueOffline: currentUserId ? queueScan : undefined });
+
+  // Keeps the photo for later instead of losing it to a dropped connection
+  const queueOfflineScan = async (file: File) => {
+    try {
+      await queueScan(file, scanMode);
+      resetAnalysis();
+      toast("📴 You're offline. We saved this photo and will analyze it when you're back online.");
+    } catch (err) {
+      console.error("Error saving offline scan:", err);
+      setAnalysisError(err instanceof Error ? err.message : "Could not save this scan for later.");
+      setIsAnalyzing(false);
     }
+  };
 
-    setHistoryLoading(true);
-
-    const scansRef = collection(db, "users", currentUserId, "scans");
-    
-    // Try without orderBy first to see if data exists
-    const unsubscribe = onSnapshot(
-      scansRef,
-      (snapshot) => {
-        console.log("Scan history snapshot received:", snapshot.size, "documents");
-        const items: ScanHistoryItem[] = snapshot.docs.map((docSnap) => {
-          const data = docSnap.data();
-          console.log("Scan document data:", docSnap.id, data);
-          const createdAt = data.createdAt?.toDate ? data.createdAt.toDate() : new Date();
-
-          return {
-            id: docSnap.id,
-            material: data.material || "Unknown material",
-            recyclable: Boolean(data.recyclable),
-            timestamp: createdAt,
-            imageUrl: data.imageUrl || undefined,
-            pointsEarned: data.pointsEarned ?? (data.recyclable ? 10 : 5),
-          };
-        });
-        
-        // Sort client-side for now
-        items.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-        
-        setScanHistory(items);
-        setHistoryLoading(false);
-      },
-      (error) => {
-        console.error("Error loading scan history:", error);
-        console.error("Error code:", error.code);
-        console.error("Error message:", error.message);
-        toast.error("Could not load your scan history.");
-        setHistoryLoading(false);
+  const updateDetectedItemStatus = (index: number, status: DetectedItemState["status"]) => {
+    setMultiScan((current) =>
+      current && {
+        ...current,
+        items: current.items.map((entry, i) => (i === index ? { ...entry, status } : entry)),
       }
     );
+  };
 
-    return () => unsubscribe();
-  }, [currentUserId]);
+  const confirmDetectedItem = async (index: number) => {
+    const item = multiScan?.items[index];
+    if (!item || item.status !== "pending") return;
 
-  const updateUserPoints = async (userId: string, recyclable: boolean, pointsToAdd: number) => {
     try {
-      const userRef = doc(db, "users", userId);
-      
-      // Always add points (10 for recyclable, 5 for non-recyclable)
-      const updateData: any = {
-        points: increment(pointsToAdd),
-      };
-      
-      // Only increment itemsRecycled counter if the item is actually recyclable
-      if (recyclable) {
-        updateData.itemsRecycled = increment(1);
-        console.log(`✅ Adding ${pointsToAdd} points and incrementing itemsRecycled for user ${userId}`);
-      } else {
-        console.log(`📚 Adding ${pointsToAdd} learning points for user ${userId} (non-recyclable item)`);
+      const scan = item.item.scan && (await confirmScan(item.item.scan.scanId));
+      updateDetectedItemStatus(index, "awarded");
+      if (scan) {
+        toast.success(`♻️ Item confirmed! You earned ${scan.pointsEarned} points!`);
       }
-      
-      await updateDoc(userRef, updateData);
-      console.log(`✓ Points updated successfully in Firestore`);
-    } catch (error) {
-      console.error("❌ Error updating user points:", error);
-      toast.error("Could not update your points. Please try again.");
+    } catch (err) {
+      console.error("Error confirming scan:", err);
+      toast.error("Could not confirm this item. Please try again.");
     }
   };
 
-  const uploadScanImage = async (file: File, userId: string) => {
-    // Storage disabled - skip upload and return undefined
-    // Images won't be saved, but scan history will still work
-    console.log("Image upload skipped (Storage not enabled)");
-    return undefined;
+  const skipDetectedItem = (index: number) => {
+    if (!multiScan || multiScan.items[index]?.status !== "pending") return;
+    updateDetectedItemStatus(index, "skipped");
   };
 
-  const saveScanRecord = async (
-    userId: string,
-    file: File,
-    parsed: { object: string; recyclable: boolean; instructions?: string; reason?: string },
-    pointsEarned: number
-  ) => {
+  const confirmResult = async () => {
+    if (!pendingConfirmation) return;
+
     try {
-      console.log("Saving scan record for user:", userId);
-      
-      // Skip image upload (Storage not enabled)
-      const imageUrl = null;
-      
-      const scanData = {
-        material: parsed.object,
-        recyclable: parsed.recyclable,
-        instructions: parsed.instructions || parsed.reason || "",
-        pointsEarned,
-        imageUrl: imageUrl,
-        createdAt: serverTimestamp(),
-      };
-      
-      console.log("Writing scan data to Firestore:", scanData);
-      const docRef = await addDoc(collection(db, "users", userId, "scans"), scanData);
-      console.log("Scan saved successfully with ID:", docRef.id);
-    } catch (error) {
-      console.error("Error saving scan record:", error);
-      toast.error("Could not save this scan to history.");
+      const { scan } = pendingConfirmation;
+      announceAward(scan.recyclable, scan.scan && (await confirmScan(scan.scan.scanId)));
+      setPendingConfirmation(null);
+    } catch (err) {
+      console.error("Error confirming scan:", err);
+      toast.error("Could not confirm this scan. Please try again.");
     }
   };
 
-  const analyzeWithGemini = async (file: File) => {
-    setIsAnalyzing(true);
-    setPreviewImage(URL.createObjectURL(file));
+  const submitCorrection = async (correction: ScanCorrection) => {
+    if (!pendingConfirmation) return;
 
+    const original = pendingConfirmation.scan;
     try {
-      // Convert image to base64
-      const base64Image = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
+      const scan = original.scan && (await confirmScan(original.scan.scanId, correction));
 
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-      const prompt = `
-        You are EcoScan, an AI recycling expert.
-
-        Analyze the uploaded image and identify the **main object**.
-
-        Then, determine:
-        1. What the object is.
-        2. Whether it is recyclable (true or false).
-        3. Explain briefly *why* it is or isn't recyclable.
-        4. If recyclable, give clear recycling instructions (how to prepare or dispose of it properly).
-        5. If not recyclable, suggest an eco-friendly alternative or disposal method.
-
-        Respond ONLY in the following strict JSON format:
-        {
-          "object": "string - name of the main object",
-          "recyclable": true or false,
-          "reason": "string - short explanation",
-          "instructions": "string - how to recycle or dispose of it properly"
-        }
-        `;
-
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            mimeType: file.type,
-            data: base64Image.split(",")[1], // remove data URI prefix
-          },
-        },
-      ]);
+      setResult((current) => current && applyCorrection(current, correction));
+      announceAward(correction.recyclable, scan);
+      setPendingConfirmation(null);
+    } catch (err) {
+      console.error("Error saving correction:", err);
+      toast.error("Could not save your correction. Please try again.");
+    }
+  };
 
-      const text = await result.response.text();
-      console.log("Gemini raw response:", text);
+  const analyzeMultipleItems = async (file: File) => {
+    const image = await fileToClassifierImage(file);
+    const detected = await getClassifier().detectItems(image);
 
-      // Try to parse JSON safely
-      const match = text.match(/\{[\s\S]*\}/);
-      const parsed = match ? JSON.parse(match[0]) : null;
+    // The backend has already awarded the confident items; the unsure ones wait for the user
+    const scan: MultiItemScan = {
+      items: detected.map((item) => ({
+        item,
+        status: detectedItemStatus(item),
+      })),
+    };
+    setMultiScan(scan);
+    setIsAnalyzing(false);
 
-      if (!parsed) throw new Error("Invalid Gemini response format");
+    if (scan.items.some((entry) => entry.status === "duplicate")) {
+      toast("🔁 You've already scanned this photo recently, so these items don't earn points.");
+      return;
+    }
 
-      setResult({
-        material: parsed.object,
-        recyclable: parsed.recyclable,
-        confidence: 100, 
-        instructions: parsed.instructions || parsed.reason,
-      });
-      
-      // Stop the loading spinner immediately after analysis completes
-      setIsAnalyzing(false);
-      
-      // Show toast and save to Firestore in background
-      if (parsed.recyclable) {
-        toast.success(`♻️ Scanned item is recyclable! You earned 10 points!`);
-      } else {
-        toast(`🧠 Scanned item is not recyclable — but you learned something! You earned 5 points.`, {
-          icon: "✨",
-          style: {
-            background: "#2d2d2d",
-            color: "#fff",
-          },
-        });
-      }
-      
-      if (currentUserId) {
-        const pointsEarned = parsed.recyclable ? 10 : 5;
-        // Run these in background without blocking UI
-        Promise.all([
-          updateUserPoints(currentUserId, parsed.recyclable, pointsEarned),
-          saveScanRecord(currentUserId, file, parsed, pointsEarned),
-        ]).catch((err) => {
-          console.error("Error saving scan data:", err);
-        });
+    const awarded = scan.items.filter((entry) => entry.status === "awarded");
+    const points = awarded.reduce((sum, entry) => sum + (entry.item.scan?.pointsEarned ?? 0), 0);
+    const pendingCount = scan.items.length - awarded.length;
+
+    if (points > 0) {
+      toast.success(`♻️ Sorted ${awarded.length} items! You earned ${points} points!`);
+    }
+    if (awarded.some((entry) => entry.item.scan?.dailyCapReached)) {
+      toast("🏁 You've reached today's points limit. Come back tomorrow!");
+    }
+    if (pendingCount > 0) {
+      toast(`🤔 ${pendingCount} ${pendingCount === 1 ? "item needs" : "items need"} a quick check before we award points.`);
+    }
+  };
+
+  // Downscales and strips metadata first; photos that look too dark or blurry ask for a retake
+  const analyzeImage = async (file: File) => {
+    setIsAnalyzing(true);
+    setAnalysisError(null);
+    setRetakePrompt(null);
+
+    let prepared = file;
+    try {
+      const processed = await preprocessImage(file);
+      prepared = processed.file;
+      if (processed.quality.issue) {
+        setPreviewImage(URL.createObjectURL(prepared));
+        setRetakePrompt({ file: prepared, issue: processed.quality.issue });
+        setIsAnalyzing(false);
+        return;
       }
     } catch (err) {
-      console.error("Gemini Analysis Error:", err);
-      alert("Image analysis failed. Please try again.");
-      setIsAnalyzing(false);
+      // Formats the browser can't decode (e.g. HEIC in some browsers) still go to the classifier as-is
+      console.warn("Image preprocessing failed, sending the original photo:", err);
     }
+
+    await classifyImage(prepared);
   };
 
-  // Mock analysis function
-  const analyzeImage = analyzeWithGemini;
+  const classifyImage = async (file: File) => {
+    setIsAnalyzing(true);
+    setRetakePrompt(null);
+    setPreviewImage(URL.createObjectURL(file));
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      analyzeImage(file);
+    if (!navigator.onLine && currentUserId) {
+      await queueOfflineScan(file);
+      return;
     }
-  };
 
-  const startCamera = async () => {
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment' }
-      });
-      setStream(mediaStream);
-      setShowCamera(true);
+      if (scanMode === "multi") {
+        await analyzeMultipleItems(file);
+        return;
+      }
+
+      const image = await fileToClassifierImage(file);
+      const parsed = await getClassifier().classify(image);
+
+      setResult(toAnalysisResult(parsed));
+      
+      // Stop the loading spinner immediately after analysis completes
+      setIsAnalyzing(false);
+
+      // Unsure results wait for the user to confirm or correct them before any points are given
+      if (needsConfirmation(parsed)) {
+        setPendingConfirmation({ scan: parsed });
+        return;
+      }
+
+      announceAward(parsed.recyclable, parsed.scan);
     } catch (err) {
-      console.error('Error accessing camera:', err);
-      alert('Camera access denied or not available');
+      if (shouldQueueScan(err) && currentUserId) {
+        await queueOfflineScan(file);
+        return;
+      }
+      console.error("Classifier Error:", err);
+      setAnalysisError(describeClassifierError(err));
+      setIsAnalyzing(false);
     }
   };
 
-  // Set video stream when camera opens
-  useEffect(() => {
-    if (showCamera && stream && videoRef.current) {
-      videoRef.current.srcObject = stream;
+  // One photo gets the full result card; several go through the batch queue and its summary
+  const analyzeFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && batch.items.length === 0) {
+      analyzeImage(files[0]);
+      return;
     }
-  }, [showCamera, stream]);
 
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
+    const skipped = batch.addFiles(files, scanMode);
+    if (skipped > 0) {
+      toast(`Only images are analyzed, up to ${MAX_BATCH_SIZE} at a time. ${skipped} ${skipped === 1 ? "file was" : "files were"} left out.`);
     }
-    setShowCamera(false);
   };
 
-  const capturePhoto = () => {
-    if (!videoRef.current || !canvasRef.current) return;
-
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    analyzeFiles(Array.from(event.target.files ?? []));
+    // Lets the same photos be picked again after a reset
+    event.target.value = "";
+  };
 
-    if (!context) return;
+  const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    analyzeFiles(Array.from(event.dataTransfer.files));
+  };
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    context.drawImage(video, 0, 0);
+  // Known products come straight from the product table; unknown ones fall back to classifying the frame
+  const handleBarcode = async (code: string, frame: File | null) => {
+    try {
+      const product = await scanBarcode(code);
 
-    canvas.toBlob((blob) => {
-      if (blob) {
-        const file = new File([blob], `photo-${Date.now()}.jpg`, {
-          type: 'image/jpeg'
-        });
-        analyzeImage(file);
-        stopCamera();
+      if (!product) {
+        toast("🔍 We don't know this product yet, so we'll analyze the photo instead.");
+        if (frame) analyzeImage(frame);
+        return;
       }
-    }, 'image/jpeg', 0.8);
+
+      setAnalysisError(null);
+      setPreviewImage(frame ? URL.createObjectURL(frame) : null);
+      setResult({ ...toAnalysisResult(product), packaging: product.material });
+      announceAward(product.recyclable, product.scan);
+    } catch (err) {
+      console.error("Barcode lookup error:", err);
+      setAnalysisError(describeClassifierError(err));
+    }
   };
 
   const resetAnalysis = () => {
     setResult(null);
+    setMultiScan(null);
+    setAnalysisError(null);
+    setRetakePrompt(null);
+    setPendingConfirmation(null);
     setPreviewImage(null);
     setIsAnalyzing(false);
   };
 
-  // Cleanup camera stream on unmount
-  useEffect(() => {
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-    };
-  }, [stream]);
-
   return (
     <div className="space-y-4">
       <Card>
@@ -387,86 +425,123 @@ export function PhotoAnalysis({ currentUserId }: PhotoAnalysisProps) {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {!result && !isAnalyzing && (
-            <div className="space-y-4">
-              {!showCamera && (
-                <div className="flex flex-col sm:flex-row gap-3">
-                  <Button
-                    onClick={startCamera}
-                    className="flex-1 bg-green-600 hover:bg-green-700"
-                  >
-                    <Camera className="mr-2 h-4 w-4" />
-                    Take Photo
+          {analysisError && !isAnalyzing && (
+            <Alert className="border-amber-500 bg-amber-50 p-4 block">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+                <div className="flex-1 w-full">
+                  <AlertDescription className="text-amber-900 w-full break-words">
+                    {analysisError}
+                  </AlertDescription>
+                  <Button onClick={resetAnalysis} variant="outline" size="sm" className="mt-3">
+                    Try Again
                   </Button>
-                  <label className="flex-1">
-                    <Button variant="outline" className="w-full" asChild>
-                      <span>
-                        <Upload className="mr-2 h-4 w-4" />
-                        Upload Photo
-                      </span>
-                    </Button>
-                    <input
-                      type="file"
-                      accept="image/*"
-                      onChange={handleFileUpload}
-                      className="hidden"
-                    />
-                  </label>
                 </div>
-              )}
+              </div>
+            </Alert>
+          )}
 
-              {/* Camera Popup Box */}
-              {showCamera && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-                  <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-                    <div className="flex justify-between items-center mb-4">
-                      <h3 className="text-lg font-semibold">Take a Photo</h3>
-                      <Button
-                        onClick={stopCamera}
-                        variant="ghost"
-                        size="sm"
-                      >
-                        ✕
+          {retakePrompt && previewImage && !isAnalyzing && (
+            <div className="space-y-4">
+              <div className="relative rounded-lg overflow-hidden bg-gray-100">
+                <img src={previewImage} alt="Photo to retake" className="w-full h-64 object-cover" />
+              </div>
+              <Alert className="border-amber-500 bg-amber-50 p-4 block">
+                <div className="flex items-start gap-3">
+                  <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+                  <div className="flex-1 w-full">
+                    <AlertDescription className="text-amber-900 w-full break-words">
+                      {RETAKE_MESSAGES[retakePrompt.issue]}
+                    </AlertDescription>
+                    <div className="flex gap-2 mt-3">
+                      <Button onClick={resetAnalysis} size="sm" className="bg-green-600 hover:bg-green-700">
+                        <Camera className="mr-2 h-4 w-4" />
+                        Retake
+                      </Button>
+                      <Button onClick={() => classifyImage(retakePrompt.file)} variant="outline" size="sm">
+                        Use Anyway
                       </Button>
                     </div>
-                    
-                    {/* Live Camera Feed */}
-                    <div className="relative bg-black rounded-lg overflow-hidden mb-4">
-                      <video
-                        ref={videoRef}
-                        autoPlay
-                        playsInline
-                        muted
-                        className="w-full h-64 object-cover"
-                        onLoadedMetadata={() => {
-                          if (videoRef.current) {
-                            videoRef.current.play().catch(console.error);
-                          }
-                        }}
-                      />
-                    </div>
+                  </div>
+                </div>
+              </Alert>
+            </div>
+          )}
+
+          {batch.items.length > 0 && (
+            <BatchUploadResults batch={batch} />
+          )}
 
-                    {/* Hidden canvas for capture */}
-                    <canvas ref={canvasRef} className="hidden" />
+          {!result && !multiScan && !isAnalyzing && !analysisError && !retakePrompt && batch.items.length === 0 && (
+            <div className="space-y-4">
+              {!showCamera && (
+                <Tabs value={scanMode} onValueChange={(value: string) => setScanMode(value as ScanMode)}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="single">Single item</TabsTrigger>
+                    <TabsTrigger value="multi">Multiple items</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              )}
 
-                    {/* Capture Button */}
+              {!showCamera && (
+                <div
+                  onDragOver={(event) => {
+                    event.preventDefault();
+                    setIsDraggingFiles(true);
+                  }}
+                  onDragLeave={(event) => {
+                    // Moving over a child fires dragleave on the zone too
+                    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFiles(false);
+                  }}
+                  onDrop={handleFileDrop}
+                  className={`space-y-2 rounded-lg border-2 border-dashed p-3 transition-colors ${
+                    isDraggingFiles ? "border-green-500 bg-green-50" : "border-transparent"
+                  }`}
+                >
+                  <div className="flex flex-col sm:flex-row gap-3">
                     <Button
-                      onClick={capturePhoto}
-                      className="w-full bg-green-600 hover:bg-green-700"
+                      onClick={() => setShowCamera(true)}
+                      className="flex-1 bg-green-600 hover:bg-green-700"
                     >
                       <Camera className="mr-2 h-4 w-4" />
-                      Capture Photo
+                      Take Photo
                     </Button>
+                    <label className="flex-1">
+                      <Button variant="outline" className="w-full" asChild>
+                        <span>
+                          <Upload className="mr-2 h-4 w-4" />
+                          Upload Photos
+                        </span>
+                      </Button>
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={handleFileUpload}
+                        className="hidden"
+                      />
+                    </label>
                   </div>
+                  <p className="hidden sm:block text-center text-xs text-gray-500">
+                    or drop photos here — pick several to analyze a whole haul at once
+                  </p>
                 </div>
               )}
+
+              {showCamera && (
+                <CameraDialog
+                  onCapture={analyzeImage}
+                  onBarcode={handleBarcode}
+                  onClose={() => setShowCamera(false)}
+                />
+              )}
             </div>
           )}
 
           {isAnalyzing && (
             <div className="flex flex-col items-center justify-center py-12">
               <Loader2 className="h-12 w-12 animate-spin text-green-600 mb-4" />
-              <p className="text-gray-600">Analyzing material...</p>
+              <p className="text-gray-600">{scanMode === "multi" ? "Finding every item..." : "Analyzing material..."}</p>
             </div>
           )}
 
@@ -502,21 +577,92 @@ export function PhotoAnalysis({ currentUserId }: PhotoAnalysisProps) {
                         {result.recyclable ? "Recyclable" : "Not Recyclable"}
                       </Badge>
                     </div>
+                    {result.materialName && (
+                      <p className="text-xs text-gray-600 mb-2">Material: {result.materialName}</p>
+                    )}
+                    {result.hazards && result.hazards.length > 0 && (
+                      <div className="mb-2 space-y-1">
+                        {result.hazards.map((hazard) => (
+                          <p key={hazard} className="flex items-center gap-1 text-xs text-amber-800">
+                            <AlertTriangle className="h-3 w-3 flex-shrink-0 text-amber-600" />
+                            {HAZARD_LABELS[hazard] ?? hazard}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                     <AlertDescription className={`${result.recyclable ? "text-green-800" : "text-red-800"} w-full break-words`}>
-                      {result.instructions}
+                      {result.steps && result.steps.length > 0 && !result.packaging ? (
+                        <ol className="list-decimal pl-4 space-y-1">
+                          {result.steps.map((step) => (
+                            <li key={step}>{step}</li>
+                          ))}
+                        </ol>
+                      ) : (
+                        result.instructions
+                      )}
                     </AlertDescription>
-                    <p className="text-xs text-gray-600 mt-2">
-                      Confidence: {result.confidence}%
-                    </p>
+                    {result.regionRule && (
+                      <p className="flex items-start gap-1 text-xs text-gray-700 mt-2">
+                        <MapPin className="h-3 w-3 mt-0.5 flex-shrink-0 text-green-600" />
+                        <span>
+                          Local rule ({result.regionRule.regionName}): {result.regionRule.note}
+                        </span>
+                      </p>
+                    )}
+                    {result.packaging ? (
+                      <p className="text-xs text-gray-600 mt-2">
+                        Packaging: {result.packaging} • Identified by barcode
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-600 mt-2">
+                        Confidence: {result.confidence}%
+                      </p>
+                    )}
                   </div>
                 </div>
               </Alert>
 
+              {pendingConfirmation && (
+                <ConfirmScanPrompt
+                  scan={pendingConfirmation.scan}
+                  onConfirm={confirmResult}
+                  onCorrect={submitCorrection}
+                />
+              )}
+
+              {!pendingConfirmation && result.scanId && (
+                <Button
+                  onClick={() =>
+                    setDisputedScan({ scanId: result.scanId!, material: result.material, recyclable: result.recyclable })
+                  }
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-gray-600"
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  This is wrong
+                </Button>
+              )}
+
               <Button onClick={resetAnalysis} variant="outline" className="w-full">
                 Analyze Another Item
               </Button>
             </div>
           )}
+
+          {multiScan && previewImage && (
+            <div className="space-y-4">
+              <DetectedItemsResult
+                previewImage={previewImage}
+                items={multiScan.items}
+                onConfirm={confirmDetectedItem}
+                onSkip={skipDetectedItem}
+              />
+              <Button onClick={resetAnalysis} variant="outline" className="w-full">
+                Analyze Another Photo
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -529,118 +675,36 @@ export function PhotoAnalysis({ currentUserId }: PhotoAnalysisProps) {
             <div>
               <p className="text-green-900 mb-1">Earn points with every scan!</p>
               <p className="text-green-700 text-sm">
-                Get 10 points for recyclable items and 5 points for learning about non-recyclables.
+                {scoringRules
+                  ? describePointRules(scoringRules)
+                  : "Recyclable items earn the most, and you still earn points for learning about non-recyclables."}
               </p>
+              {scoringRules &&
+                activeScoringEvents(scoringRules).map((event) => (
+                  <Badge key={event.id} className="mt-2 mr-2 bg-amber-500 hover:bg-amber-500">
+                    {describeScoringEvent(event)}
+                  </Badge>
+                ))}
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Scan History Library */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <History className="h-5 w-5 text-green-600" />
-            Scan History
-          </CardTitle>
-          <CardDescription>
-            Your recent material scans
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {historyLoading ? (
-              <div className="text-center py-8 text-gray-500">
-                <Loader2 className="h-10 w-10 animate-spin mx-auto mb-3 text-green-600" />
-                <p>Loading your scan history...</p>
-              </div>
-            ) : scanHistory.length === 0 ? (
-              <div className="text-center py-8 text-gray-500">
-                <History className="h-12 w-12 mx-auto mb-2 opacity-20" />
-                <p>No scans yet. Start analyzing items!</p>
-              </div>
-            ) : (
-              <>
-                {currentItems.map((item) => (
-                  <div
-                    key={item.id}
-                    className="flex items-center gap-3 p-2 rounded-lg border bg-white hover:bg-gray-50 transition-colors"
-                  >
-                    <div className="relative w-12 h-12 rounded-md overflow-hidden flex-shrink-0 bg-gray-100">
-                      {item.imageUrl ? (
-                        <img
-                          src={item.imageUrl}
-                          alt={item.material}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="flex h-full w-full items-center justify-center text-gray-400">
-                          <ImageOff className="h-6 w-6" />
-                        </div>
-                      )}
-                    </div>
-                    
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2">
-                        <p className="font-medium text-sm text-gray-900 truncate">
-                          {item.material}
-                        </p>
-                        <Badge
-                          variant={item.recyclable ? "default" : "destructive"}
-                          className="flex-shrink-0 text-xs h-5"
-                        >
-                          {item.recyclable ? (
-                            <CheckCircle className="h-3 w-3 mr-1" />
-                          ) : (
-                            <XCircle className="h-3 w-3 mr-1" />
-                          )}
-                          {item.recyclable ? "Recyclable" : "Not Recyclable"}
-                        </Badge>
-                      </div>
-                      <div className="flex items-center gap-1 mt-0.5 text-xs text-gray-500">
-                        <Clock className="h-3 w-3" />
-                        <span>{formatTimeAgo(item.timestamp)}</span>
-                        <span className="ml-2">• {item.pointsEarned} pts</span>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-                
-                {/* Pagination Controls */}
-                {totalPages > 1 && (
-                  <div className="flex items-center justify-between pt-2 border-t">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={handlePreviousPage}
-                      disabled={currentPage === 1}
-                      className="flex items-center gap-1"
-                    >
-                      <ChevronLeft className="h-4 w-4" />
-                      Previous
-                    </Button>
-                    
-                    <span className="text-sm text-gray-600">
-                      Page {currentPage} of {totalPages}
-                    </span>
-                    
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={handleNextPage}
-                      disabled={currentPage === totalPages}
-                      className="flex items-center gap-1"
-                    >
-                      Next
-                      <ChevronRight className="h-4 w-4" />
-                    </Button>
-                  </div>
-                )}
-              </>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      <ScanHistory
+        currentUserId={currentUserId}
+        offlineQueue={offlineQueue}
+        scoringRules={scoringRules}
+        onDispute={setDisputedScan}
+      />
+
+      <CorrectScanDialog
+        scan={disputedScan}
+        onClose={() => setDisputedScan(null)}
+        onCorrected={(correction, scan) => {
+          // History updates through its listener; the open result card needs updating by hand
+          setResult((current) => (current && current.scanId === scan.scanId ? applyCorrection(current, correction) : current));
+        }}
+      />
     </div>
   );
 }
@@ -1,113 +1,43 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Avatar, AvatarFallback } from "./ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { PastLeaderboards } from "./PastLeaderboards";
 import { Trophy, TrendingUp, Award, Medal } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { useState, useEffect } from "react"; // hooks
-import { collection, query, orderBy, limit, getDocs, doc, getDoc, where, Timestamp } from "firebase/firestore";    // firestore import
-import { db } from "../firebase/firestoreConfig";     // db
-
-interface LeaderboardUser {
-  rank: number;
-  name: string;
-  uid: string;
-  points: number;
-  itemsRecycled: number;
-  initials: string;
-}
+import { watchPointsLedger } from "../firebase/db";
+import { dailyPoints, type PointsLedgerEntry } from "../lib/pointsLedger";
+import { utcWeekStart } from "../lib/weeks";
+import { LEADERBOARD_VIEWS, nameInitials, rankPercentile, type LeaderboardView } from "../lib/leaderboards";
+import { useLeaderboard, useLeaderboardStanding, LEADERBOARD_SIZE } from "../hooks/useLeaderboard";
+import { useUserProfile } from "../hooks/useUserProfile";
 
 interface PointsLeaderboardProps {
   currentUserId: string; // The id of the currently logged-in user
 }
 
-interface WeeklyData {
-  day: string;
-  points: number;
-}
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
+// The user's points per day this week, from their points ledger
 const useWeeklyProgress = (userId: string) => {
-  const [weeklyData, setWeeklyData] = useState<WeeklyData[]>([
-    { day: "Mon", points: 0 },
-    { day: "Tue", points: 0 },
-    { day: "Wed", points: 0 },
-    { day: "Thu", points: 0 },
-    { day: "Fri", points: 0 },
-    { day: "Sat", points: 0 },
-    { day: "Sun", points: 0 },
-  ]);
-  const [totalWeekPoints, setTotalWeekPoints] = useState(0);
+  const [weekStart, setWeekStart] = useState(() => utcWeekStart());
+  const [entries, setEntries] = useState<PointsLedgerEntry[]>([]);
 
+  // Moves the chart on to the new week when it starts
   useEffect(() => {
-    if (!userId) return;
-
-    const fetchWeeklyScans = async () => {
-      try {
-        // Get the start of the current week (Monday)
-        const now = new Date();
-        const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-        const daysFromMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1; // Adjust so Monday = 0
-        
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - daysFromMonday);
-        startOfWeek.setHours(0, 0, 0, 0);
-
-        console.log("Fetching scans from:", startOfWeek);
-
-        // Query scans from this week
-        const scansRef = collection(db, "users", userId, "scans");
-        const weekQuery = query(
-          scansRef,
-          where("createdAt", ">=", Timestamp.fromDate(startOfWeek))
-        );
-
-        const querySnapshot = await getDocs(weekQuery);
-        console.log("Weekly scans found:", querySnapshot.size);
-
-        // Initialize points array for each day
-        const dayPoints = [0, 0, 0, 0, 0, 0, 0]; // Mon-Sun
-
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          const createdAt = data.createdAt?.toDate();
-          const points = data.pointsEarned || 0;
-
-          if (createdAt) {
-            const scanDay = createdAt.getDay(); // 0 = Sunday, 1 = Monday, etc.
-            const dayIndex = scanDay === 0 ? 6 : scanDay - 1; // Convert to Mon=0, Sun=6
-            dayPoints[dayIndex] += points;
-            console.log(`Scan on ${createdAt.toDateString()}: ${points} points (day index: ${dayIndex})`);
-          }
-        });
+    const timeout = setTimeout(() => setWeekStart(utcWeekStart()), weekStart.getTime() + WEEK_MS - Date.now());
+    return () => clearTimeout(timeout);
+  }, [weekStart]);
 
-        // Update the weekly data
-        const updatedWeeklyData: WeeklyData[] = [
-          { day: "Mon", points: dayPoints[0] },
-          { day: "Tue", points: dayPoints[1] },
-          { day: "Wed", points: dayPoints[2] },
-          { day: "Thu", points: dayPoints[3] },
-          { day: "Fri", points: dayPoints[4] },
-          { day: "Sat", points: dayPoints[5] },
-          { day: "Sun", points: dayPoints[6] },
-        ];
-
-        const total = dayPoints.reduce((sum, p) => sum + p, 0);
-        
-        setWeeklyData(updatedWeeklyData);
-        setTotalWeekPoints(total);
-        console.log("Weekly data updated:", updatedWeeklyData, "Total:", total);
-      } catch (error) {
-        console.error("Error fetching weekly progress:", error);
-      }
-    };
-
-    fetchWeeklyScans();
-    
-    // Refresh every 10 seconds to catch new scans
-    const interval = setInterval(fetchWeeklyScans, 10000);
-    
-    return () => clearInterval(interval);
-  }, [userId]);
+  // The listener gets new and corrected scans as their ledger entries are written
+  useEffect(() => {
+    if (!userId) return;
+    return watchPointsLedger(userId, weekStart, setEntries);
+  }, [userId, weekStart]);
 
+  const weeklyData = dailyPoints(entries, weekStart);
+  const totalWeekPoints = weeklyData.reduce((sum, day) => sum + day.points, 0);
   return { weeklyData, totalWeekPoints };
 };
 
@@ -126,131 +56,21 @@ const leaderboardData: LeaderboardUser[] = [
 ];
 */
 
-const useLeaderboardData = () => {
-  const [data, setData] = useState<LeaderboardUser[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [totalUsers, setTotalUsers] = useState(0);
-
-  useEffect(() => {
-    const fetchLeaderboard = async () => {
-      // 1. Define the query for top 10
-      const q = query(
-        collection(db, "users"),
-        orderBy("points", "desc"),
-        limit(10)
-      );
-
-      try {
-        const querySnapshot = await getDocs(q);
-
-        console.log("Fetched leaderboard docs:", querySnapshot.size);
-        querySnapshot.forEach((d) => console.log("User:", d.id, d.data()));
-        
-        let rank = 1;
-        const fetchedData: LeaderboardUser[] = querySnapshot.docs.map((doc) => {
-          const userData = doc.data();
-          const name = userData.name || "Anonymous";
-          const initials = name.split(' ').map((n: string) => n[0]).join('').toUpperCase().substring(0, 2);
-
-          return {
-            rank: rank++,
-            uid: userData.uid || doc.id,
-            name: name,
-            points: userData.points || 0,
-            itemsRecycled: userData.itemsRecycled || 0,
-            initials: initials,
-          } as LeaderboardUser;
-        });
-
-        // 2. Fetch total user count for ranking purposes
-        const allUsersQuery = query(collection(db, "users"));
-        const allUsersSnapshot = await getDocs(allUsersQuery);
-        setTotalUsers(allUsersSnapshot.size);
-
-        // 2. Handle the EMPTY database case gracefully
-        setData(fetchedData); // This will be [] if the database is empty
-      } catch (error) {
-        console.error("Error fetching leaderboard:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchLeaderboard();
-    
-    // Refresh leaderboard every 5 seconds to show point updates
-    const interval = setInterval(fetchLeaderboard, 5000);
-    
-    return () => clearInterval(interval);
-  }, []);
-
-  return { data, loading, totalUsers };
-};
-
 export function PointsLeaderboard({ currentUserId } : PointsLeaderboardProps) {
   
-  const { data: leaderboardData, loading, totalUsers } = useLeaderboardData();
+  const [view, setView] = useState<LeaderboardView>("monthly");
+  const { entries: leaderboardData, loading, totalUsers, fromCache } = useLeaderboard(view);
   const { weeklyData, totalWeekPoints } = useWeeklyProgress(currentUserId);
-  const [userStats, setUserStats] = useState<LeaderboardUser>({ 
-    rank: 0, 
-    points: 0, 
-    itemsRecycled: 0, 
-    initials: "Me", 
-    name: "You",
-    uid: currentUserId
-  });
-
-  // Fetch current user's stats and calculate their rank among ALL users
-  useEffect(() => {
-    if (!currentUserId) return;
-
-    const fetchUserStats = async () => {
-      try {
-        const userRef = doc(db, "users", currentUserId);
-        const userSnap = await getDoc(userRef);
-        
-        if (userSnap.exists()) {
-          const userData = userSnap.data();
-          const name = userData.name || "You";
-          const initials = name.split(' ').map((n: string) => n[0]).join('').toUpperCase().substring(0, 2);
-          const userPoints = userData.points || 0;
-          
-          // Calculate rank by counting how many users have MORE points
-          const allUsersQuery = query(
-            collection(db, "users"),
-            where("points", ">", userPoints)
-          );
-          const higherRankedUsers = await getDocs(allUsersQuery);
-          const rank = higherRankedUsers.size + 1; // User's rank is count of higher-ranked users + 1
-          
-          setUserStats({
-            rank,
-            uid: currentUserId,
-            name,
-            points: userPoints,
-            itemsRecycled: userData.itemsRecycled || 0,
-            initials,
-          });
-          
-          console.log("User stats updated:", {
-            points: userPoints,
-            itemsRecycled: userData.itemsRecycled,
-            rank,
-            totalUsers
-          });
-        }
-      } catch (error) {
-        console.error("Error fetching user stats:", error);
-      }
-    };
+  const { profile } = useUserProfile(currentUserId);
+  const standing = useLeaderboardStanding(view, currentUserId, leaderboardData, totalUsers);
+  const userName = profile?.name || "You";
+  const userStats = {
+    ...standing,
+    uid: currentUserId,
+    name: userName,
+    initials: nameInitials(userName),
+  };
 
-    fetchUserStats();
-    
-    // Refresh every 3 seconds to show immediate point updates
-    const interval = setInterval(fetchUserStats, 3000);
-    
-    return () => clearInterval(interval);
-  }, [currentUserId, totalUsers]);  
   const getRankBadge = (rank: number) => {
     if (rank === 1) return <Medal className="h-5 w-5 text-yellow-500" />;
     if (rank === 2) return <Medal className="h-5 w-5 text-gray-400" />;
@@ -263,9 +83,23 @@ export function PointsLeaderboard({ currentUserId } : PointsLeaderboardProps) {
   }
 
   const showEmptyState = leaderboardData.length === 0;
+  // With ties the top 10 can be cut off mid-rank, so go by who is listed rather than by rank
+  const isListed = leaderboardData.some((user) => user.uid === currentUserId);
+  const percentile = rankPercentile(userStats.rank, totalUsers);
+  const viewDescription = LEADERBOARD_VIEWS.find((option) => option.value === view)?.description;
 
   return (
     <div className="space-y-4">
+      <Tabs value={view} onValueChange={(value: string) => setView(value as LeaderboardView)}>
+        <TabsList className="grid w-full grid-cols-3">
+          {LEADERBOARD_VIEWS.map((option) => (
+            <TabsTrigger key={option.value} value={option.value}>
+              {option.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
       {/* User Stats */}
       <Card className="bg-gradient-to-br from-green-600 to-emerald-600 text-white border-none">
         <CardContent className="pt-6">
@@ -273,24 +107,35 @@ export function PointsLeaderboard({ currentUserId } : PointsLeaderboardProps) {
             <div>
               <p className="text-green-100 text-sm mb-1">Your Rank</p>
               <div className="flex items-center gap-2">
-                <p className="text-4xl">#{userStats?.rank}</p>
-                {userStats?.rank > 0 && userStats.rank <= 10 && (
+                <p className="text-4xl">{userStats.rank > 0 ? `#${userStats.rank.toLocaleString()}` : "—"}</p>
+                {userStats?.rank > 0 && userStats.rank <= LEADERBOARD_SIZE && (
                   <Badge className="bg-yellow-500 text-white hover:bg-yellow-600">
-                    Top 10!
+                    Top {LEADERBOARD_SIZE}!
                   </Badge>
                 )}
-                {userStats?.rank > 10 && (
+                {userStats?.rank > LEADERBOARD_SIZE && (
                   <TrendingUp className="h-6 w-6 text-green-200" />
                 )}
               </div>
-              {totalUsers > 0 && (
+              {userStats.rank === 0 && view !== "all-time" && (
+                <p className="text-green-100 text-xs mt-1">Earn points {view === "weekly" ? "this week" : "this month"} to get on the board</p>
+              )}
+              {userStats.rank > 0 && totalUsers > 0 && (
                 <p className="text-green-100 text-xs mt-1">
-                  Out of {totalUsers} {totalUsers === 1 ? 'user' : 'users'}
+                  {percentile !== null ? `Top ${percentile}% of ` : "Out of "}
+                  {totalUsers.toLocaleString()} {totalUsers === 1 ? 'user' : 'users'}
+                </p>
+              )}
+              {userStats.tiedWith > 0 && (
+                <p className="text-green-100 text-xs">
+                  Tied with {userStats.tiedWith.toLocaleString()} {userStats.tiedWith === 1 ? "other" : "others"}
                 </p>
               )}
             </div>
             <div className="text-right">
-              <p className="text-green-100 text-sm mb-1">Total Points</p>
+              <p className="text-green-100 text-sm mb-1">
+                {view === "all-time" ? "Total Points" : `Points ${viewDescription}`}
+              </p>
               <p className="text-4xl">{userStats?.points.toLocaleString()}</p>
             </div>
           </div>
@@ -354,13 +199,15 @@ export function PointsLeaderboard({ currentUserId } : PointsLeaderboardProps) {
             <Trophy className="h-5 w-5 text-green-600" />
             Top 10 Recyclers
           </CardTitle>
-          <CardDescription>Community leaderboard for this month</CardDescription>
+          <CardDescription>
+            {fromCache ? "You're offline — showing the last standings we saved" : `Community leaderboard ${viewDescription}`}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
             {leaderboardData.map((user) => (
               <div
-                key={user.rank}
+                key={user.uid}
                 className={`flex items-center gap-3 p-3 rounded-lg transition-all ${
                   user.uid === currentUserId
                     ? "bg-green-50 border-2 border-green-600"
@@ -391,7 +238,7 @@ export function PointsLeaderboard({ currentUserId } : PointsLeaderboardProps) {
             ))}
             
             {/* Show current user if not in top 10 */}
-            {userStats?.rank > 10 && (
+            {!isListed && userStats.rank > 0 && (
               <>
                 <div className="flex items-center justify-center py-2">
                   <span className="text-gray-400 text-sm">• • •</span>
@@ -420,6 +267,8 @@ export function PointsLeaderboard({ currentUserId } : PointsLeaderboardProps) {
         </CardContent>
       </Card>
 
+      {view !== "all-time" && <PastLeaderboards type={view} currentUserId={currentUserId} />}
+
       {/* Achievements */}
       <Card className="bg-gradient-to-br from-amber-50 to-orange-50 border-amber-200">
         <CardContent className="pt-6">
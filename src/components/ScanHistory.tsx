@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { CheckCircle, XCircle, History, Clock, ChevronLeft, ChevronRight, Loader2, Copy, Flag, PencilLine } from "lucide-react";
+import { ScanImage } from "./ScanImage";
+import { PendingScans } from "./PendingScans";
+import type { DisputedScan } from "./CorrectScanDialog";
+import type { OfflineScanQueue } from "../hooks/useOfflineScanQueue";
+import type { ScoringRules } from "../lib/scoring";
+import { db } from "../firebase/firestoreConfig";
+import { collection, onSnapshot } from "firebase/firestore";
+import toast from "react-hot-toast";
+
+interface ScanHistoryItem {
+  id: string;
+  material: string;
+  recyclable: boolean;
+  timestamp: Date;
+  // Photo stored by the backend; false once it passes the retention period
+  hasImage: boolean;
+  // Missing on scans saved before the backend recorded the points it awarded
+  pointsEarned: number | null;
+  // Low-confidence scans stay unawarded until the user confirms or corrects them
+  awaitingConfirmation: boolean;
+  // Repeat of a recent photo; never earns points
+  duplicate: boolean;
+  // The user said the classifier got it wrong
+  corrected: boolean;
+}
+
+interface ScanHistoryProps {
+  currentUserId: string;
+  // Scans taken offline, listed above the saved ones until they are sent
+  offlineQueue: OfflineScanQueue;
+  // Prices older scans that didn't record their points; null until the rules load
+  scoringRules: ScoringRules | null;
+  onDispute: (scan: DisputedScan) => void;
+}
+
+const ITEMS_PER_PAGE = 4;
+
+const formatTimeAgo = (date: Date) => {
+  const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'Just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 604800) return `${Math.floor(seconds / 86400)}d ago`;
+  return date.toLocaleDateString();
+};
+
+// The user's saved scans, newest first, with offline scans still waiting to be sent on top
+export function ScanHistory({ currentUserId, offlineQueue, scoringRules, onDispute }: ScanHistoryProps) {
+  const [scanHistory, setScanHistory] = useState<ScanHistoryItem[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const { pendingScans, isSyncing, retryScan, discardScan } = offlineQueue;
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1);
+
+  useEffect(() => {
+    const maxPage = Math.max(1, Math.ceil(scanHistory.length / ITEMS_PER_PAGE) || 1);
+    if (currentPage > maxPage) {
+      setCurrentPage(maxPage);
+    }
+  }, [scanHistory, currentPage]);
+
+  // Calculate pagination
+  const totalPages = Math.ceil(scanHistory.length / ITEMS_PER_PAGE);
+  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+  const currentItems = scanHistory.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+
+  // Older scans without a recorded amount show the base points for their verdict
+  const historyPoints = (item: ScanHistoryItem) => {
+    if (item.pointsEarned !== null) return item.pointsEarned;
+    if (!scoringRules) return null;
+    return item.recyclable ? scoringRules.points.recyclable : scoringRules.points.notRecyclable;
+  };
+
+  const handleNextPage = () => {
+    if (currentPage < totalPages) {
+      setCurrentPage(currentPage + 1);
+    }
+  };
+
+  const handlePreviousPage = () => {
+    if (currentPage > 1) {
+      setCurrentPage(currentPage - 1);
+    }
+  };
+
+  useEffect(() => {
+    if (!currentUserId) {
+      setScanHistory([]);
+      setHistoryLoading(false);
+      return;
+    }
+
+    setHistoryLoading(true);
+
+    const scansRef = collection(db, "users", currentUserId, "scans");
+
+    // Try without orderBy first to see if data exists
+    const unsubscribe = onSnapshot(
+      scansRef,
+      (snapshot) => {
+        console.log("Scan history snapshot received:", snapshot.size, "documents");
+        const items: ScanHistoryItem[] = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          console.log("Scan document data:", docSnap.id, data);
+          const createdAt = data.createdAt?.toDate ? data.createdAt.toDate() : new Date();
+
+          return {
+            id: docSnap.id,
+            material: data.material || "Unknown material",
+            recyclable: Boolean(data.recyclable),
+            timestamp: createdAt,
+            hasImage: Boolean(data.imageId),
+            pointsEarned: data.pointsEarned ?? null,
+            awaitingConfirmation: data.status === "needs_confirmation",
+            duplicate: data.status === "duplicate",
+            corrected: Boolean(data.correction),
+          };
+        });
+
+        // Sort client-side for now
+        items.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+        setScanHistory(items);
+        setHistoryLoading(false);
+      },
+      (error) => {
+        console.error("Error loading scan history:", error);
+        console.error("Error code:", error.code);
+        console.error("Error message:", error.message);
+        toast.error("Could not load your scan history.");
+        setHistoryLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUserId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-green-600" />
+          Scan History
+        </CardTitle>
+        <CardDescription>
+          Your recent material scans
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          <PendingScans
+            scans={pendingScans}
+            isSyncing={isSyncing}
+            onRetry={(scan) => retryScan(scan).catch((err) => console.error("Error retrying offline scan:", err))}
+            onDiscard={(scan) => discardScan(scan).catch((err) => console.error("Error removing offline scan:", err))}
+          />
+          {historyLoading ? (
+            <div className="text-center py-8 text-gray-500">
+              <Loader2 className="h-10 w-10 animate-spin mx-auto mb-3 text-green-600" />
+              <p>Loading your scan history...</p>
+            </div>
+          ) : scanHistory.length === 0 && pendingScans.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <History className="h-12 w-12 mx-auto mb-2 opacity-20" />
+              <p>No scans yet. Start analyzing items!</p>
+            </div>
+          ) : (
+            <>
+              {currentItems.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center gap-3 p-2 rounded-lg border bg-white hover:bg-gray-50 transition-colors"
+                >
+                  <ScanImage scanId={item.id} hasImage={item.hasImage} alt={item.material} />
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-sm text-gray-900 truncate">
+                        {item.material}
+                      </p>
+                      <Badge
+                        variant={item.recyclable ? "default" : "destructive"}
+                        className="flex-shrink-0 text-xs h-5"
+                      >
+                        {item.recyclable ? (
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                        ) : (
+                          <XCircle className="h-3 w-3 mr-1" />
+                        )}
+                        {item.recyclable ? "Recyclable" : "Not Recyclable"}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1 mt-0.5 text-xs text-gray-500">
+                      <Clock className="h-3 w-3" />
+                      <span>{formatTimeAgo(item.timestamp)}</span>
+                      {(item.awaitingConfirmation || historyPoints(item) !== null) && (
+                        <span className="ml-2">
+                          • {item.awaitingConfirmation ? "Unconfirmed" : `${historyPoints(item)} pts`}
+                        </span>
+                      )}
+                      {item.duplicate && (
+                        <Badge variant="outline" className="ml-auto text-xs h-5 border-amber-400 text-amber-700">
+                          <Copy className="h-3 w-3 mr-1" />
+                          Duplicate
+                        </Badge>
+                      )}
+                      {item.corrected && (
+                        <Badge variant="outline" className={`${item.duplicate ? "" : "ml-auto"} text-xs h-5`}>
+                          <PencilLine className="h-3 w-3 mr-1" />
+                          Corrected
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 flex-shrink-0 text-gray-400 hover:text-gray-700"
+                    title="This is wrong"
+                    aria-label="This is wrong"
+                    onClick={() => onDispute({ scanId: item.id, material: item.material, recyclable: item.recyclable })}
+                  >
+                    <Flag className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              {/* Pagination Controls */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between pt-2 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handlePreviousPage}
+                    disabled={currentPage === 1}
+                    className="flex items-center gap-1"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+
+                  <span className="text-sm text-gray-600">
+                    Page {currentPage} of {totalPages}
+                  </span>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleNextPage}
+                    disabled={currentPage === totalPages}
+                    className="flex items-center gap-1"
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
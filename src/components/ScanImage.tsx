@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { ImageOff, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "./ui/dialog";
+import { getScanImageUrl, type ScanImageSize } from "../api/scans";
+
+// Loads a stored scan photo through the API; stays null while loading or when there's no photo
+const useScanImageUrl = (scanId: string | null, size: ScanImageSize) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setUrl(null);
+    setFailed(false);
+    if (!scanId) return;
+
+    let cancelled = false;
+    getScanImageUrl(scanId, size)
+      .then((loaded) => !cancelled && setUrl(loaded))
+      .catch((err) => {
+        console.error("Error loading scan image:", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scanId, size]);
+
+  return { url, failed };
+};
+
+interface ScanImageProps {
+  scanId: string;
+  hasImage: boolean;
+  alt: string;
+}
+
+// History thumbnail that opens the full photo when tapped
+export function ScanImage({ scanId, hasImage, alt }: ScanImageProps) {
+  const [open, setOpen] = useState(false);
+  const thumb = useScanImageUrl(hasImage ? scanId : null, "thumb");
+  const full = useScanImageUrl(open ? scanId : null, "full");
+
+  if (!hasImage || thumb.failed) {
+    return (
+      <div className="relative w-12 h-12 rounded-md overflow-hidden flex-shrink-0 bg-gray-100">
+        <div className="flex h-full w-full items-center justify-center text-gray-400">
+          <ImageOff className="h-6 w-6" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="relative w-12 h-12 rounded-md overflow-hidden flex-shrink-0 bg-gray-100"
+        aria-label={`View photo of ${alt}`}
+      >
+        {thumb.url ? (
+          <img src={thumb.url} alt={alt} className="w-full h-full object-cover" />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="p-2 sm:max-w-lg">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <DialogDescription className="sr-only">Full-size scan photo</DialogDescription>
+          {full.url ? (
+            <img src={full.url} alt={alt} className="w-full h-auto rounded-md" />
+          ) : full.failed ? (
+            <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+              <ImageOff className="h-10 w-10 mb-2" />
+              <p className="text-sm">This photo is no longer available.</p>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-10 w-10 animate-spin text-green-600" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import { RefreshCw, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { Button } from "./ui/button";
+
+// Installed copies can stay open for days; look for a new deploy this often
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Registers the service worker and asks before switching to a newly deployed version, so a
+// reload never interrupts a scan in progress
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW(_url: string, registration: ServiceWorkerRegistration | undefined) {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) registration.update();
+      }, UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError(error: unknown) {
+      console.error("Service worker registration failed:", error);
+    },
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast("EcoScan is ready to work offline.", { icon: "📶" });
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady]);
+
+  if (!needRefresh) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md items-center gap-3 rounded-lg border bg-white p-3 shadow-lg"
+    >
+      <RefreshCw className="h-5 w-5 flex-shrink-0 text-green-700" />
+      <p className="flex-1 text-sm text-gray-700">A new version of EcoScan is available.</p>
+      <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => updateServiceWorker(true)}>
+        Reload
+      </Button>
+      <button
+        type="button"
+        aria-label="Dismiss"
+        className="text-gray-400 hover:text-gray-600"
+        onClick={() => setNeedRefresh(false)}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
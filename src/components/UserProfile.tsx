@@ -15,8 +15,11 @@ import {
 } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { useState, useEffect } from "react";
-import { doc, getDoc, collection, getDocs } from "firebase/firestore";
+import { collection, getDocs } from "firebase/firestore";
 import { db } from "../firebase/firestoreConfig";
+import { getPointsLedger } from "../firebase/db";
+import { useUserProfile } from "../hooks/useUserProfile";
+import { describeLedgerEntry, weeklyPoints, weeklyPointsSince, type PointsLedgerEntry } from "../lib/pointsLedger";
 
 interface UserProfileProps {
   userEmail: string;
@@ -27,16 +30,12 @@ interface UserProfileProps {
   onEditProfile?: () => void;
 }
 
-// Mock data - to be replaced with real data later
-const mockWeeklyHistory = [
-  { week: "Week 1", points: 120 },
-  { week: "Week 2", points: 180 },
-  { week: "Week 3", points: 240 },
-  { week: "Week 4", points: 320 },
-  { week: "Week 5", points: 280 },
-  { week: "Week 6", points: 390 },
-];
+// Weeks of points history in the chart
+const HISTORY_WEEKS = 6;
+// Ledger entries listed under the chart
+const RECENT_ENTRIES = 8;
 
+// Mock data - to be replaced with real data later
 const mockRewards = [
   { id: 1, name: "First Scan", icon: "🎯", earned: true, date: "Oct 10, 2025" },
   { id: 2, name: "10 Items", icon: "🌱", earned: true, date: "Oct 15, 2025" },
@@ -57,11 +56,18 @@ const mockStats = {
   recyclingRate: 94,
 };
 
+interface MaterialCount {
+  materialId: string;
+  name: string;
+  count: number;
+}
+
 export function UserProfile({ userEmail, currentUserId, onLogout, userInitials, userName, onEditProfile }: UserProfileProps) {
-  const [totalPoints, setTotalPoints] = useState(0);
-  const [itemsRecycled, setItemsRecycled] = useState(0);
+  const { profile, loading: profileLoading } = useUserProfile(currentUserId);
   const [totalScans, setTotalScans] = useState(0);
   const [recyclingRate, setRecyclingRate] = useState(0);
+  const [topMaterials, setTopMaterials] = useState<MaterialCount[]>([]);
+  const [ledger, setLedger] = useState<PointsLedgerEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Fetch user stats from Firebase
@@ -70,16 +76,6 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
 
     const fetchUserStats = async () => {
       try {
-        // Fetch user document
-        const userRef = doc(db, "users", currentUserId);
-        const userSnap = await getDoc(userRef);
-        
-        if (userSnap.exists()) {
-          const userData = userSnap.data();
-          setTotalPoints(userData.points || 0);
-          setItemsRecycled(userData.itemsRecycled || 0);
-        }
-
         // Fetch all scans to calculate total scans and recycling rate
         const scansRef = collection(db, "users", currentUserId, "scans");
         const scansSnap = await getDocs(scansRef);
@@ -101,6 +97,19 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
         } else {
           setRecyclingRate(0);
         }
+
+        // Group by taxonomy ID rather than the free-text material, which varies between scans
+        const materials = new Map<string, MaterialCount>();
+        scansSnap.forEach((scanDoc) => {
+          const { materialId, materialName } = scanDoc.data();
+          if (!materialId) return;
+          const entry = materials.get(materialId) ?? { materialId, name: materialName || materialId, count: 0 };
+          entry.count++;
+          materials.set(materialId, entry);
+        });
+        setTopMaterials([...materials.values()].sort((a, b) => b.count - a.count).slice(0, 5));
+
+        setLedger(await getPointsLedger(currentUserId, weeklyPointsSince(HISTORY_WEEKS)));
       } catch (error) {
         console.error("Error fetching user stats:", error);
       } finally {
@@ -111,6 +120,8 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
     fetchUserStats();
   }, [currentUserId]);
 
+  const weeklyHistory = weeklyPoints(ledger, HISTORY_WEEKS);
+
   return (
     <div className="space-y-6">
       {/* Profile Header */}
@@ -133,11 +144,11 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
           {/* Quick Stats Grid */}
           <div className="grid grid-cols-3 gap-4 mt-6">
             <div className="text-center">
-              <p className="text-3xl font-bold">{isLoading ? "..." : totalPoints}</p>
+              <p className="text-3xl font-bold">{profileLoading ? "..." : profile?.points ?? 0}</p>
               <p className="text-green-100 text-xs mt-1">Total Points</p>
             </div>
             <div className="text-center">
-              <p className="text-3xl font-bold">{isLoading ? "..." : itemsRecycled}</p>
+              <p className="text-3xl font-bold">{profileLoading ? "..." : profile?.itemsRecycled ?? 0}</p>
               <p className="text-green-100 text-xs mt-1">Items Recycled</p>
             </div>
             <div className="text-center">
@@ -178,6 +189,18 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
               </div>
             </div>
           </div>
+
+          {topMaterials.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium text-gray-700">Top Materials</p>
+              {topMaterials.map((material) => (
+                <div key={material.materialId} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-900">{material.name}</span>
+                  <span className="text-gray-500">{material.count}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -188,11 +211,11 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
             <Calendar className="h-5 w-5 text-green-600" />
             Weekly Points History
           </CardTitle>
-          <CardDescription>Your point progression over the past 6 weeks</CardDescription>
+          <CardDescription>Your point progression over the past {HISTORY_WEEKS} weeks</CardDescription>
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={250}>
-            <LineChart data={mockWeeklyHistory}>
+            <LineChart data={weeklyHistory}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
               <XAxis dataKey="week" stroke="#6b7280" fontSize={12} />
               <YAxis stroke="#6b7280" fontSize={12} />
@@ -215,9 +238,26 @@ export function UserProfile({ userEmail, currentUserId, onLogout, userInitials,
           </ResponsiveContainer>
           <div className="mt-4 p-3 bg-green-50 rounded-lg">
             <p className="text-sm text-green-800 text-center">
-              📈 You've earned <span className="font-bold">{mockWeeklyHistory.reduce((sum, week) => sum + week.points, 0)}</span> points in the last 6 weeks!
+              📈 You've earned <span className="font-bold">{weeklyHistory.reduce((sum, week) => sum + week.points, 0)}</span> points in the last {HISTORY_WEEKS} weeks!
             </p>
           </div>
+
+          {ledger.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium text-gray-700">Recent Changes</p>
+              {ledger.slice(0, RECENT_ENTRIES).map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate text-gray-900">{describeLedgerEntry(entry)}</p>
+                    <p className="text-xs text-gray-500">{entry.createdAt.toLocaleDateString()}</p>
+                  </div>
+                  <span className={entry.amount < 0 ? "text-red-600" : "text-green-700"}>
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -1,14 +1,177 @@
-import { doc, setDoc } from "firebase/firestore";
+import {
+  collection,
+  doc,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type QuerySnapshot,
+} from "firebase/firestore";
 import { db } from "./firestoreConfig";
+import type { ScoringRules } from "../lib/scoring";
+import type { PointsLedgerEntry } from "../lib/pointsLedger";
+import { leaderboardPeriodId, type LeaderboardPeriodType, type LeaderboardView, type PastLeaderboard } from "../lib/leaderboards";
 
 export const createNewUserProfile = async (uid: string, name: string) => {
   const userRef = doc(db, "users", uid); // Uses the UID as the Document ID
-  
-  await setDoc(userRef, {
+  const batch = writeBatch(db);
+
+  batch.set(userRef, {
     uid: uid,
     name: name,
     points: 0,
     itemsRecycled: 0,
     createdAt: new Date(),
   }, { merge: true });
-};
\ No newline at end of file
+  // The user count shown with the leaderboard; the rules only allow this alongside a new profile
+  batch.set(doc(db, "stats", "users"), { count: increment(1) }, { merge: true });
+  await batch.commit();
+};
+
+// Private settings only the owner (and the backend) can read; see firestore.rules
+const preferencesRef = (uid: string) => doc(db, "users", uid, "settings", "preferences");
+
+// Region id for local recycling rules, or null to go by location
+export const getRecyclingRegion = async (uid: string): Promise<string | null> => {
+  const snap = await getDoc(preferencesRef(uid));
+  return snap.exists() ? snap.get("region") ?? null : null;
+};
+
+export const setRecyclingRegion = async (uid: string, region: string | null) => {
+  await setDoc(preferencesRef(uid), { region });
+};
+
+// Calls onChange with the scoring rules now and after every published change; null until the
+// rules are published (the backend then uses its built-in defaults). Returns an unsubscribe function
+export const watchScoringRules = (onChange: (rules: ScoringRules | null) => void) =>
+  onSnapshot(
+    doc(db, "config", "scoring"),
+    (snap) => onChange(snap.exists() ? (snap.data() as ScoringRules) : null),
+    (err) => console.error("Error reading scoring rules:", err)
+  );
+
+// The user's points ledger since `since`, newest first. Only the owner can read it; see firestore.rules
+const pointsLedgerQuery = (uid: string, since: Date) =>
+  query(collection(db, "users", uid, "ledger"), where("createdAt", ">=", since), orderBy("createdAt", "desc"));
+
+const toLedgerEntries = (snap: QuerySnapshot) =>
+  snap.docs.map((entry) => {
+    const data = entry.data();
+    return { ...data, id: entry.id, createdAt: data.createdAt.toDate() } as PointsLedgerEntry;
+  });
+
+export const getPointsLedger = async (uid: string, since: Date): Promise<PointsLedgerEntry[]> =>
+  toLedgerEntries(await getDocs(pointsLedgerQuery(uid, since)));
+
+// Same entries, calling onChange again whenever one is added
+export const watchPointsLedger = (uid: string, since: Date, onChange: (entries: PointsLedgerEntry[]) => void) =>
+  onSnapshot(
+    pointsLedgerQuery(uid, since),
+    (snap) => onChange(toLedgerEntries(snap)),
+    (err) => console.error("Error reading points ledger:", err)
+  );
+
+// Where a board's standings live: the users themselves for all time, else the current period's
+// entries (one per user who scored in it, keyed by uid)
+export const leaderboardCollection = (view: LeaderboardView) =>
+  view === "all-time"
+    ? collection(db, "users")
+    : collection(db, "leaderboards", view, "periods", leaderboardPeriodId(view), "entries");
+
+// The most recent archived periods, newest first. Only archived periods have closedAt
+export const getPastLeaderboards = async (type: LeaderboardPeriodType, max: number): Promise<PastLeaderboard[]> => {
+  const snap = await getDocs(
+    query(collection(db, "leaderboards", type, "periods"), orderBy("closedAt", "desc"), limit(max))
+  );
+  return snap.docs.map((period) => {
+    const data = period.data();
+    return {
+      ...data,
+      startsAt: data.startsAt.toDate(),
+      endsAt: data.endsAt.toDate(),
+    } as PastLeaderboard;
+  });
+};
+
+export interface UserProfileData {
+  name: string | null;
+  points: number;
+  itemsRecycled: number;
+}
+
+// Calls onChange with the user's profile now and whenever it changes, e.g. when the backend awards
+// points; null until the profile exists. fromCache is true while offline. Returns an unsubscribe function
+export const watchUserProfile = (
+  uid: string,
+  onChange: (profile: UserProfileData | null, fromCache: boolean) => void
+) =>
+  onSnapshot(
+    doc(db, "users", uid),
+    (snap) => {
+      const data = snap.data();
+      onChange(
+        data ? { name: data.name || null, points: data.points || 0, itemsRecycled: data.itemsRecycled || 0 } : null,
+        snap.metadata.fromCache
+      );
+    },
+    (err) => console.error("Error reading user profile:", err)
+  );
+
+// Calls onChange with the top `max` standings of a board (raw documents, highest points first)
+export const watchLeaderboard = (
+  view: LeaderboardView,
+  max: number,
+  onChange: (standings: { id: string; data: DocumentData }[], fromCache: boolean) => void
+) =>
+  onSnapshot(
+    query(leaderboardCollection(view), orderBy("points", "desc"), limit(max)),
+    (snap) => onChange(snap.docs.map((entry) => ({ id: entry.id, data: entry.data() })), snap.metadata.fromCache),
+    (err) => console.error("Error reading leaderboard:", err)
+  );
+
+// Calls onChange with the number of people on a board: every user for all time (stats/users), else
+// everyone who scored in the current period (kept on the period document by the backend)
+export const watchLeaderboardSize = (view: LeaderboardView, onChange: (size: number) => void) =>
+  onSnapshot(
+    view === "all-time" ? doc(db, "stats", "users") : doc(db, "leaderboards", view, "periods", leaderboardPeriodId(view)),
+    (snap) => onChange((view === "all-time" ? snap.get("count") : snap.get("participants")) ?? 0),
+    (err) => console.error("Error reading leaderboard size:", err)
+  );
+
+// Calls onChange with the user's own standing on a board: their profile for all time, else their
+// entry for the current period (missing until they score in it, so onBoard is false)
+export const watchLeaderboardStanding = (
+  view: LeaderboardView,
+  uid: string,
+  onChange: (standing: { points: number; itemsRecycled: number; onBoard: boolean }) => void
+) =>
+  onSnapshot(
+    doc(leaderboardCollection(view), uid),
+    (snap) =>
+      onChange({
+        points: snap.get("points") ?? 0,
+        itemsRecycled: snap.get("itemsRecycled") ?? 0,
+        onBoard: snap.exists(),
+      }),
+    (err) => console.error("Error reading leaderboard standing:", err)
+  );
+
+// Where `points` places someone on a board: how many people have more, and how many have exactly
+// as many (including them). Count queries are served from the index without downloading the
+// documents, at one read per 1,000 people counted
+export const countRank = async (view: LeaderboardView, points: number) => {
+  const board = leaderboardCollection(view);
+  const [higher, equal] = await Promise.all([
+    getCountFromServer(query(board, where("points", ">", points))),
+    getCountFromServer(query(board, where("points", "==", points))),
+  ]);
+  return { higher: higher.data().count, equal: equal.data().count };
+};
@@ -1,4 +1,8 @@
-import { getFirestore } from "firebase/firestore";
+import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from "firebase/firestore";
 import { app } from "./firebaseConfig"; // Import the initialized app
 
-export const db = getFirestore(app);
\ No newline at end of file
+// Keep the documents we've read in IndexedDB so the last leaderboard and scan history still
+// show when the installed app is opened offline. Shared between tabs.
+export const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
@@ -0,0 +1,220 @@
+// src/hooks/useBatchUpload.ts
+// Analyzes many uploaded photos (e.g. a whole cleanup haul) through a small concurrency-limited queue.
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { confirmScan } from "../api/scans";
+import {
+  describeClassifierError,
+  fileToClassifierImage,
+  getClassifier,
+  toClassifierError,
+  type ClassificationResult,
+} from "../classifier";
+import { preprocessImage, type ImageQualityIssue } from "../lib/imagePreprocessing";
+import type { PendingScan } from "../lib/offlineQueue";
+import { shouldQueueScan } from "./useOfflineScanQueue";
+
+// Photos analyzed at the same time. Each one is a model call on the backend, so keep this small
+export const BATCH_CONCURRENCY = 3;
+// Photos in one batch; more than this would mostly run into the daily points cap anyway
+export const MAX_BATCH_SIZE = 30;
+// A big batch can outrun the backend's per-minute scan limit; wait this long before going on
+const RATE_LIMIT_PAUSE_MS = 20 * 1000;
+// Rate-limited attempts before a photo is marked failed instead of waiting again
+const MAX_RATE_LIMITED_ATTEMPTS = 5;
+
+// "offline": the connection dropped, so the photo went to the offline queue instead
+export type BatchItemStatus = "queued" | "preparing" | "analyzing" | "done" | "failed" | "offline";
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  mode: PendingScan["mode"];
+  // The original upload until preprocessing replaces it with the downscaled photo
+  file: File;
+  // Thumbnail; revoked when the batch is cleared
+  previewUrl: string;
+  status: BatchItemStatus;
+  // One entry for a single-item photo, one per detected item in "multi" mode
+  results?: ClassificationResult[];
+  error?: string;
+  // Failed the dark/blurry check; retrying sends the photo anyway
+  qualityIssue?: ImageQualityIssue;
+  // Preprocessing already ran, so a retry sends the file as it is
+  prepared: boolean;
+  attempts: number;
+}
+
+interface BatchUploadOptions {
+  // Saves a photo for later when the connection drops; without it, offline photos just fail
+  queueOffline?: (image: Blob, mode: PendingScan["mode"]) => Promise<unknown>;
+}
+
+// HEIC photos from iPhones often come through with an empty type
+const isImageFile = (file: File) => file.type.startsWith("image/") || /\.(heic|heif)$/i.test(file.name);
+
+export const isBatchItemSettled = (item: BatchItem) =>
+  item.status === "done" || item.status === "failed" || item.status === "offline";
+
+export const useBatchUpload = ({ queueOffline }: BatchUploadOptions = {}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // The queue runs outside React's render cycle, so it reads and writes this copy
+  const itemsRef = useRef<BatchItem[]>([]);
+  const activeRef = useRef(0);
+  const pausedUntilRef = useRef(0);
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const queueOfflineRef = useRef(queueOffline);
+  queueOfflineRef.current = queueOffline;
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.id === id ? { ...item, ...patch } : item));
+    setItems(itemsRef.current);
+  }, []);
+
+  const processItem = useCallback(
+    async (item: BatchItem) => {
+      let file = item.file;
+      if (!item.prepared) {
+        try {
+          const processed = await preprocessImage(file);
+          file = processed.file;
+          if (processed.quality.issue) {
+            updateItem(item.id, { file, prepared: true, status: "failed", qualityIssue: processed.quality.issue });
+            return;
+          }
+        } catch (err) {
+          // Same as a single upload: formats the browser can't decode go to the classifier as-is
+          console.warn(`Image preprocessing failed for ${item.name}, sending the original photo:`, err);
+        }
+        updateItem(item.id, { file, prepared: true });
+      }
+
+      updateItem(item.id, { status: "analyzing", attempts: item.attempts + 1 });
+      try {
+        const image = await fileToClassifierImage(file);
+        const classifier = getClassifier();
+        const results = item.mode === "multi" ? await classifier.detectItems(image) : [await classifier.classify(image)];
+        updateItem(item.id, { status: "done", results });
+      } catch (err) {
+        if (toClassifierError(err).kind === "quota" && item.attempts + 1 < MAX_RATE_LIMITED_ATTEMPTS) {
+          // Back in line; the whole queue waits for the limit to reset
+          pausedUntilRef.current = Date.now() + RATE_LIMIT_PAUSE_MS;
+          updateItem(item.id, { status: "queued" });
+          return;
+        }
+        const queue = queueOfflineRef.current;
+        if (queue && shouldQueueScan(err)) {
+          try {
+            await queue(file, item.mode);
+            updateItem(item.id, { status: "offline" });
+            return;
+          } catch (queueErr) {
+            console.error("Error saving offline scan:", queueErr);
+          }
+        }
+        console.error(`Classifier error for ${item.name}:`, err);
+        updateItem(item.id, { status: "failed", error: describeClassifierError(err) });
+      }
+    },
+    [updateItem]
+  );
+
+  // Starts queued photos until BATCH_CONCURRENCY are in flight; each one finishing starts the next
+  const pump = useCallback(() => {
+    const pausedFor = pausedUntilRef.current - Date.now();
+    if (pausedFor > 0) {
+      clearTimeout(resumeTimerRef.current);
+      resumeTimerRef.current = setTimeout(pump, pausedFor);
+      return;
+    }
+
+    while (activeRef.current < BATCH_CONCURRENCY) {
+      const next = itemsRef.current.find((item) => item.status === "queued");
+      if (!next) return;
+
+      activeRef.current++;
+      updateItem(next.id, { status: next.prepared ? "analyzing" : "preparing" });
+      processItem(next).finally(() => {
+        activeRef.current--;
+        pump();
+      });
+    }
+  }, [processItem, updateItem]);
+
+  // Adds photos to the batch. Returns how many were left out (not images, or over MAX_BATCH_SIZE)
+  const addFiles = useCallback(
+    (files: File[], mode: PendingScan["mode"]) => {
+      const images = files.filter(isImageFile);
+      const room = Math.max(0, MAX_BATCH_SIZE - itemsRef.current.length);
+      const added: BatchItem[] = images.slice(0, room).map((file) => ({
+        id: crypto.randomUUID(),
+        name: file.name,
+        mode,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: "queued",
+        prepared: false,
+        attempts: 0,
+      }));
+
+      itemsRef.current = [...itemsRef.current, ...added];
+      setItems(itemsRef.current);
+      pump();
+      return files.length - added.length;
+    },
+    [pump]
+  );
+
+  const retryItem = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find((entry) => entry.id === id);
+      if (item?.status !== "failed") return;
+      updateItem(id, { status: "queued", error: undefined, qualityIssue: undefined });
+      pump();
+    },
+    [pump, updateItem]
+  );
+
+  const retryFailed = useCallback(() => {
+    itemsRef.current
+      .filter((item) => item.status === "failed")
+      .forEach((item) => updateItem(item.id, { status: "queued", error: undefined, qualityIssue: undefined }));
+    pump();
+  }, [pump, updateItem]);
+
+  // Awards a low-confidence result the user has checked. resultIndex is the detected item in "multi" mode
+  const confirmItem = useCallback(
+    async (id: string, resultIndex: number) => {
+      const result = itemsRef.current.find((entry) => entry.id === id)?.results?.[resultIndex];
+      if (!result?.scan) return undefined;
+
+      const scan = await confirmScan(result.scan.scanId);
+      const item = itemsRef.current.find((entry) => entry.id === id);
+      updateItem(id, {
+        results: item?.results?.map((entry, i) => (i === resultIndex ? { ...entry, scan } : entry)),
+      });
+      return scan;
+    },
+    [updateItem]
+  );
+
+  // Only once every photo has settled; photos still in flight would come back to an empty list
+  const clear = useCallback(() => {
+    if (!itemsRef.current.every(isBatchItemSettled)) return;
+    itemsRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    itemsRef.current = [];
+    setItems([]);
+  }, []);
+
+  useEffect(
+    () => () => {
+      clearTimeout(resumeTimerRef.current);
+      itemsRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    },
+    []
+  );
+
+  return { items, addFiles, retryItem, retryFailed, confirmItem, clear };
+};
+
+export type BatchUpload = ReturnType<typeof useBatchUpload>;
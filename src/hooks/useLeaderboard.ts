@@ -0,0 +1,106 @@
+// src/hooks/useLeaderboard.ts
+// Live leaderboard standings. The board comes from Firestore listeners, so an open tab only reads
+// what changes instead of re-reading the board every few seconds, and the user's rank from count
+// queries. A listener stays on the period it started in; switching boards (or reloading) picks up a
+// new week or month.
+
+import { useEffect, useState } from "react";
+import {
+  countRank,
+  watchLeaderboard,
+  watchLeaderboardSize,
+  watchLeaderboardStanding,
+} from "../firebase/db";
+import { nameInitials, type LeaderboardView } from "../lib/leaderboards";
+
+// Standings shown on the board
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry {
+  // Equal points share a rank: 1, 2, 2, 4
+  rank: number;
+  uid: string;
+  name: string;
+  points: number;
+  itemsRecycled: number;
+  initials: string;
+}
+
+// The top of a board and how many people are on it
+export const useLeaderboard = (view: LeaderboardView) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [totalUsers, setTotalUsers] = useState(0);
+  // True when the standings came from the local cache because we're offline
+  const [fromCache, setFromCache] = useState(false);
+
+  // loading is only true until the first board arrives; after a switch the old standings stay up
+  // until the new ones come in
+  useEffect(() => {
+    return watchLeaderboard(view, LEADERBOARD_SIZE, (standings, cached) => {
+      let rank = 0;
+      let previousPoints: number | undefined;
+      setEntries(
+        standings.map(({ id, data }, index) => {
+          const name = data.name || "Anonymous";
+          const points = data.points || 0;
+          if (points !== previousPoints) rank = index + 1;
+          previousPoints = points;
+          return {
+            rank,
+            uid: data.uid || id,
+            name,
+            points,
+            itemsRecycled: data.itemsRecycled || 0,
+            initials: nameInitials(name),
+          };
+        })
+      );
+      setFromCache(cached);
+      setLoading(false);
+    });
+  }, [view]);
+
+  useEffect(() => watchLeaderboardSize(view, setTotalUsers), [view]);
+
+  return { entries, loading, totalUsers, fromCache };
+};
+
+// The user's points on a board and their rank from count queries, re-counted when their own entry
+// or the board's listeners (entries and totalUsers from useLeaderboard) change, rather than on a
+// timer. Someone overtaking them outside the top of the board isn't seen until one of those does.
+// rank is 0 until they are on the board; tiedWith is how many others share it
+export const useLeaderboardStanding = (
+  view: LeaderboardView,
+  uid: string,
+  entries: LeaderboardEntry[],
+  totalUsers: number
+) => {
+  const [standing, setStanding] = useState({ points: 0, itemsRecycled: 0, onBoard: false });
+  const [position, setPosition] = useState({ rank: 0, tiedWith: 0 });
+
+  useEffect(() => {
+    if (!uid) return;
+    return watchLeaderboardStanding(view, uid, setStanding);
+  }, [view, uid]);
+
+  useEffect(() => {
+    if (!uid || !standing.onBoard) {
+      setPosition({ rank: 0, tiedWith: 0 });
+      return;
+    }
+
+    let cancelled = false;
+    countRank(view, standing.points)
+      .then(({ higher, equal }) => {
+        // Competition ranking: everyone on the same points shares the best rank among them
+        if (!cancelled) setPosition({ rank: higher + 1, tiedWith: Math.max(equal - 1, 0) });
+      })
+      .catch((error) => console.error("Error calculating rank:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [view, uid, standing, entries, totalUsers]);
+
+  return { ...standing, ...position };
+};
@@ -0,0 +1,149 @@
+// src/hooks/useOfflineScanQueue.ts
+// Keeps the user's offline scans in view and sends them when the connection comes back.
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  addPendingScan,
+  listPendingScans,
+  onPendingScansChange,
+  removePendingScan,
+  updatePendingScan,
+  type PendingScan,
+} from "../lib/offlineQueue";
+import {
+  describeClassifierError,
+  fileToClassifierImage,
+  getClassifier,
+  toClassifierError,
+  type ClassificationResult,
+} from "../classifier";
+
+// While scans are waiting, retry this often even without an "online" event (captive portals,
+// flaky signal that never drops navigator.onLine)
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Still offline or rate limited: keep the scan and try again later
+const isRetryable = (err: unknown) => {
+  const { kind } = toClassifierError(err);
+  return kind === "network" || kind === "quota";
+};
+
+// True when a failed scan should go to the queue instead of showing an error
+export const shouldQueueScan = (err: unknown) => !navigator.onLine || toClassifierError(err).kind === "network";
+
+interface OfflineScanQueueHandlers {
+  // The backend recorded the scan; results include the award decision in result.scan
+  onResolved: (scan: PendingScan, results: ClassificationResult[]) => void;
+  // The photo could not be analyzed at all (e.g. nothing recognizable); it stays in the queue,
+  // marked failed, until the user retries or removes it
+  onFailed: (scan: PendingScan, message: string) => void;
+}
+
+export const useOfflineScanQueue = (uid: string, handlers: OfflineScanQueueHandlers) => {
+  const [pendingScans, setPendingScans] = useState<PendingScan[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  // The handlers close over component state, so always call the latest ones
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const refresh = useCallback(async () => {
+    if (!uid) {
+      setPendingScans([]);
+      return;
+    }
+    try {
+      setPendingScans(await listPendingScans(uid));
+    } catch (err) {
+      console.error("Error reading offline scans:", err);
+    }
+  }, [uid]);
+
+  const sendPendingScans = useCallback(async () => {
+    const classifier = getClassifier();
+    for (const scan of await listPendingScans(uid)) {
+      if (scan.error) continue;
+      try {
+        const image = await fileToClassifierImage(new File([scan.image], "scan.jpg", { type: scan.image.type }));
+        const options = { location: scan.location };
+        const results =
+          scan.mode === "multi"
+            ? await classifier.detectItems(image, options)
+            : [await classifier.classify(image, options)];
+        await removePendingScan(scan.id);
+        handlersRef.current.onResolved(scan, results);
+      } catch (err) {
+        if (isRetryable(err)) {
+          await updatePendingScan({ ...scan, attempts: scan.attempts + 1 });
+          // The rest would fail the same way
+          return;
+        }
+        const message = describeClassifierError(err);
+        await updatePendingScan({ ...scan, error: message });
+        handlersRef.current.onFailed(scan, message);
+      }
+    }
+  }, [uid]);
+
+  const sync = useCallback(async () => {
+    if (!uid || syncingRef.current || !navigator.onLine) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      // Another open tab may be sending the same queue; the lock keeps each scan from being sent twice
+      if (navigator.locks) {
+        await navigator.locks.request(`ecoscan-offline-scans-${uid}`, { ifAvailable: true }, async (lock) => {
+          if (lock) await sendPendingScans();
+        });
+      } else {
+        await sendPendingScans();
+      }
+    } catch (err) {
+      console.error("Error sending offline scans:", err);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [uid, sendPendingScans]);
+
+  useEffect(() => {
+    refresh();
+    sync();
+    const unsubscribe = onPendingScansChange(refresh);
+    window.addEventListener("online", sync);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", sync);
+    };
+  }, [refresh, sync]);
+
+  // Failed scans wait for the user, so only the ones still waiting for a connection keep retrying
+  const waiting = pendingScans.filter((scan) => !scan.error).length;
+
+  useEffect(() => {
+    if (waiting === 0) return;
+    const timer = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [waiting, sync]);
+
+  const queueScan = useCallback(
+    (image: Blob, mode: PendingScan["mode"]) => addPendingScan(uid, image, mode),
+    [uid]
+  );
+
+  // Sends a failed scan again; without a connection it goes back to waiting for one
+  const retryScan = useCallback(
+    async (scan: PendingScan) => {
+      await updatePendingScan({ ...scan, error: undefined, attempts: 0 });
+      await sync();
+    },
+    [sync]
+  );
+
+  const discardScan = useCallback((scan: PendingScan) => removePendingScan(scan.id), []);
+
+  return { pendingScans, isSyncing, queueScan, retryScan, discardScan, syncNow: sync };
+};
+
+export type OfflineScanQueue = ReturnType<typeof useOfflineScanQueue>;
@@ -0,0 +1,12 @@
+// src/hooks/useScoringRules.ts
+// The current scoring rules, kept up to date when a new version is published.
+
+import { useEffect, useState } from "react";
+import { watchScoringRules } from "../firebase/db";
+import type { ScoringRules } from "../lib/scoring";
+
+export const useScoringRules = () => {
+  const [rules, setRules] = useState<ScoringRules | null>(null);
+  useEffect(() => watchScoringRules(setRules), []);
+  return rules;
+};
@@ -0,0 +1,25 @@
+// src/hooks/useUserProfile.ts
+// The user's profile document, kept up to date by a Firestore listener instead of polling. Components
+// that call it for the same user share one listener inside the Firestore SDK.
+
+import { useEffect, useState } from "react";
+import { watchUserProfile, type UserProfileData } from "../firebase/db";
+
+export const useUserProfile = (uid: string) => {
+  const [profile, setProfile] = useState<UserProfileData | null>(null);
+  const [loading, setLoading] = useState(true);
+  // True while offline and the profile came from the local cache
+  const [fromCache, setFromCache] = useState(false);
+
+  useEffect(() => {
+    if (!uid) return;
+    setLoading(true);
+    return watchUserProfile(uid, (next, cached) => {
+      setProfile(next);
+      setFromCache(cached);
+      setLoading(false);
+    });
+  }, [uid]);
+
+  return { profile, loading, fromCache };
+};
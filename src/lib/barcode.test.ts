@@ -0,0 +1,33 @@
+// src/lib/barcode.test.ts
+
+import { describe, expect, it } from "vitest";
+import { normalizeBarcode } from "./barcode";
+
+// The same cases as backend/lib/products.test.js, so both sides agree on the lookup key
+describe("normalizeBarcode", () => {
+  it("keeps EAN-13 and EAN-8 codes as they are", () => {
+    expect(normalizeBarcode("5449000000996")).toBe("5449000000996");
+    expect(normalizeBarcode("96385074")).toBe("96385074");
+  });
+
+  it("stores UPC-A and GTIN-14 codes as EAN-13", () => {
+    expect(normalizeBarcode("036000291452")).toBe("0036000291452");
+    expect(normalizeBarcode("05449000000996")).toBe("5449000000996");
+    expect(normalizeBarcode("15449000000993")).toBe("15449000000993");
+  });
+
+  it("reads the product number from a GS1 Digital Link", () => {
+    expect(normalizeBarcode("https://id.gs1.org/01/05449000000996")).toBe("5449000000996");
+    expect(normalizeBarcode("https://example.com/01/05449000000996/10/ABC123?x=1")).toBe("5449000000996");
+  });
+
+  it("trims whitespace around the code", () => {
+    expect(normalizeBarcode(" 5449000000996\n")).toBe("5449000000996");
+  });
+
+  it("rejects anything that is not a product number", () => {
+    expect(normalizeBarcode("1234567")).toBeNull();
+    expect(normalizeBarcode("123456789012345")).toBeNull();
+    expect(normalizeBarcode("https://example.com/product/5449000000996")).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+// src/lib/barcode.ts
+// Live barcode decoding from a <video> element. Uses the browser's BarcodeDetector where it exists
+// (Chrome on Android, Safari 17+) and falls back to zxing, which is loaded only when needed.
+
+const SCAN_INTERVAL_MS = 250;
+
+// EAN/UPC cover retail packaging; QR codes may carry a GS1 Digital Link with the same product number
+const DETECTOR_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "qr_code"];
+
+// GS1 Digital Link, e.g. https://id.gs1.org/01/05449000000996
+const DIGITAL_LINK = /\/01\/(\d{8,14})(?:[/?#]|$)/;
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: {
+      new (options?: { formats?: string[] }): BarcodeDetectorLike;
+      getSupportedFormats(): Promise<string[]>;
+    };
+  }
+}
+
+// Turns a decoded value into the product number the backend looks up, or null if it isn't one
+export const normalizeBarcode = (raw: string) => {
+  const value = raw.trim();
+  const link = value.match(DIGITAL_LINK);
+  const digits = link ? link[1] : value;
+  if (!/^\d{8,14}$/.test(digits)) return null;
+  if (digits.length === 8) return digits;
+  // UPC-A is EAN-13 with a leading zero, and GTIN-14 pads with zeros; store them the same way
+  const gtin = digits.padStart(13, "0");
+  return gtin.length === 14 && gtin.startsWith("0") ? gtin.slice(1) : gtin;
+};
+
+const startNativeScanner = async (video: HTMLVideoElement, onCode: (code: string) => void) => {
+  const BarcodeDetector = window.BarcodeDetector!;
+  const supported = await BarcodeDetector.getSupportedFormats();
+  const detector = new BarcodeDetector({ formats: DETECTOR_FORMATS.filter((format) => supported.includes(format)) });
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    if (stopped) return;
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      try {
+        for (const barcode of await detector.detect(video)) {
+          const code = normalizeBarcode(barcode.rawValue);
+          if (code && !stopped) {
+            onCode(code);
+            return;
+          }
+        }
+      } catch (err) {
+        console.warn("Barcode detection failed for a frame:", err);
+      }
+    }
+    timer = setTimeout(tick, SCAN_INTERVAL_MS);
+  };
+  tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
+
+const startZxingScanner = async (video: HTMLVideoElement, onCode: (code: string) => void) => {
+  const [{ BrowserMultiFormatReader }, { BarcodeFormat, DecodeHintType }] = await Promise.all([
+    import("@zxing/browser"),
+    import("@zxing/library"),
+  ]);
+
+  const hints = new Map();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, [
+    BarcodeFormat.EAN_13,
+    BarcodeFormat.EAN_8,
+    BarcodeFormat.UPC_A,
+    BarcodeFormat.UPC_E,
+    BarcodeFormat.QR_CODE,
+  ]);
+  const reader = new BrowserMultiFormatReader(hints, { delayBetweenScanAttempts: SCAN_INTERVAL_MS });
+
+  let stopped = false;
+  const controls = await reader.decodeFromVideoElement(video, (result) => {
+    const code = result && normalizeBarcode(result.getText());
+    if (code && !stopped) {
+      stopped = true;
+      controls.stop();
+      onCode(code);
+    }
+  });
+
+  return () => {
+    stopped = true;
+    controls.stop();
+  };
+};
+
+// Scans frames until a product code is found, calls onCode once, and stops.
+// Resolves to a function that stops scanning early (e.g. when the camera closes)
+export const startBarcodeScanner = (video: HTMLVideoElement, onCode: (code: string) => void): Promise<() => void> =>
+  window.BarcodeDetector ? startNativeScanner(video, onCode) : startZxingScanner(video, onCode);
@@ -0,0 +1,116 @@
+// src/lib/imagePreprocessing.ts
+// Shrinks photos before they are uploaded and catches ones the classifier would struggle with.
+// Re-drawing onto a canvas also bakes in the EXIF orientation and drops all EXIF/GPS metadata.
+
+// Longest side sent to the backend; phone photos are often 4000px+ and the model doesn't need it
+export const MAX_IMAGE_DIMENSION = Number(import.meta.env.VITE_IMAGE_MAX_DIMENSION) || 1280;
+const JPEG_QUALITY = 0.85;
+
+// Quality checks run on a small copy; thresholds are tuned for that size
+const ANALYSIS_DIMENSION = 256;
+const MIN_BRIGHTNESS = 40; // mean luminance, 0-255
+const MIN_SHARPNESS = 60; // variance of the Laplacian
+
+export type ImageQualityIssue = "dark" | "blurry";
+
+export interface ImageQuality {
+  brightness: number;
+  sharpness: number;
+  issue: ImageQualityIssue | null;
+}
+
+export interface PreprocessedImage {
+  file: File;
+  width: number;
+  height: number;
+  quality: ImageQuality;
+}
+
+// Scales width x height down (never up) so the longest side fits within max
+export const fitWithin = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  context.drawImage(source, 0, 0, width, height);
+  return { canvas, context };
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("Could not encode image"));
+          return;
+        }
+        resolve(new File([blob], name.replace(/\.[^.]+$/, "") + ".jpg", { type: "image/jpeg" }));
+      },
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+
+// Brightness is the mean luminance; sharpness is the variance of a 3x3 Laplacian, which drops
+// sharply when edges are smeared by motion or missed focus
+const measureQuality = (source: CanvasImageSource, width: number, height: number): ImageQuality => {
+  const size = fitWithin(width, height, ANALYSIS_DIMENSION);
+  const { context } = drawScaled(source, size.width, size.height);
+  const { data } = context.getImageData(0, 0, size.width, size.height);
+
+  const luma = new Float32Array(size.width * size.height);
+  let total = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    luma[i] = value;
+    total += value;
+  }
+  const brightness = total / luma.length;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < size.height - 1; y++) {
+    for (let x = 1; x < size.width - 1; x++) {
+      const i = y * size.width + x;
+      const laplacian = luma[i - size.width] + luma[i + size.width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count ? sum / count : 0;
+  const sharpness = count ? sumSquares / count - mean * mean : 0;
+
+  // A dark photo also looks blurry, so report darkness first
+  const issue = brightness < MIN_BRIGHTNESS ? "dark" : sharpness < MIN_SHARPNESS ? "blurry" : null;
+  return { brightness, sharpness, issue };
+};
+
+// Applies EXIF orientation, downscales, re-encodes as metadata-free JPEG and measures quality.
+// A quality issue doesn't throw: the caller decides whether to ask for a retake
+export const preprocessImage = async (file: File, maxDimension = MAX_IMAGE_DIMENSION): Promise<PreprocessedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const size = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const { canvas } = drawScaled(bitmap, size.width, size.height);
+    const quality = measureQuality(canvas, size.width, size.height);
+
+    return {
+      file: await canvasToFile(canvas, file.name || "photo.jpg"),
+      width: size.width,
+      height: size.height,
+      quality,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,47 @@
+// src/lib/leaderboards.test.ts
+
+import { describe, expect, it } from "vitest";
+import { leaderboardPeriodId, nameInitials, rankPercentile } from "./leaderboards";
+
+describe("leaderboardPeriodId", () => {
+  // The same dates as backend/lib/leaderboards.test.js, so both sides name a period the same way
+  it("uses UTC ISO weeks", () => {
+    expect(leaderboardPeriodId("weekly", new Date("2026-10-18T23:59:59Z"))).toBe("2026-W42");
+    expect(leaderboardPeriodId("weekly", new Date("2026-10-19T00:00:00Z"))).toBe("2026-W43");
+    expect(leaderboardPeriodId("weekly", new Date("2026-10-18T22:30:00-05:00"))).toBe("2026-W43");
+  });
+
+  it("numbers weeks by the year their Thursday falls in", () => {
+    expect(leaderboardPeriodId("weekly", new Date("2026-01-01T12:00:00Z"))).toBe("2026-W01");
+    expect(leaderboardPeriodId("weekly", new Date("2027-01-01T12:00:00Z"))).toBe("2026-W53");
+    expect(leaderboardPeriodId("weekly", new Date("2024-12-30T12:00:00Z"))).toBe("2025-W01");
+    expect(leaderboardPeriodId("weekly", new Date("2021-01-03T12:00:00Z"))).toBe("2020-W53");
+  });
+
+  it("uses UTC months", () => {
+    expect(leaderboardPeriodId("monthly", new Date("2026-12-31T23:59:59Z"))).toBe("2026-12");
+    expect(leaderboardPeriodId("monthly", new Date("2026-12-31T20:00:00-05:00"))).toBe("2027-01");
+  });
+});
+
+describe("nameInitials", () => {
+  it("takes the first letters of the first two names", () => {
+    expect(nameInitials("sarah chen")).toBe("SC");
+    expect(nameInitials("Mary Ann Lee")).toBe("MA");
+    expect(nameInitials("Anonymous")).toBe("A");
+  });
+});
+
+describe("rankPercentile", () => {
+  it("rounds up to the top percentage the rank falls in", () => {
+    expect(rankPercentile(1, 1000)).toBe(1);
+    expect(rankPercentile(40, 1000)).toBe(4);
+    expect(rankPercentile(41, 1000)).toBe(5);
+    expect(rankPercentile(100, 100)).toBe(100);
+  });
+
+  it("leaves it out on small boards and for users not on the board", () => {
+    expect(rankPercentile(1, 99)).toBeNull();
+    expect(rankPercentile(0, 1000)).toBeNull();
+  });
+});
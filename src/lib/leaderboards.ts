@@ -0,0 +1,62 @@
+// src/lib/leaderboards.ts
+// Leaderboard periods. The backend keeps a board per week and per month (backend/lib/leaderboards.js);
+// the all-time board is the users collection itself. Period ids must match the backend's: UTC ISO
+// weeks ("2025-W11", see weeks.ts) and months ("2025-03").
+
+import { describeWeek, isoWeekId } from "./weeks";
+
+export type LeaderboardPeriodType = "weekly" | "monthly";
+export type LeaderboardView = LeaderboardPeriodType | "all-time";
+
+export interface LeaderboardWinner {
+  // Equal points share a rank
+  rank: number;
+  uid: string;
+  name: string | null;
+  points: number;
+  itemsRecycled: number;
+}
+
+// A finished period, archived by backend/scripts/close-leaderboards.js
+export interface PastLeaderboard {
+  type: LeaderboardPeriodType;
+  id: string;
+  startsAt: Date;
+  endsAt: Date;
+  participants: number;
+  winners: LeaderboardWinner[];
+}
+
+export const LEADERBOARD_VIEWS: { value: LeaderboardView; label: string; description: string }[] = [
+  { value: "weekly", label: "This Week", description: "for this week" },
+  { value: "monthly", label: "This Month", description: "for this month" },
+  { value: "all-time", label: "All Time", description: "of all time" },
+];
+
+// Boards with at least this many people show a percentile next to the rank ("Top 4%")
+export const PERCENTILE_MIN_USERS = 100;
+
+// The top percentage a rank falls in, rounded up so rank 1 of 1,000 is "Top 1%", or null on a
+// board too small for it to mean much
+export const rankPercentile = (rank: number, totalUsers: number) =>
+  rank > 0 && totalUsers >= PERCENTILE_MIN_USERS ? Math.min(Math.ceil((rank / totalUsers) * 100), 100) : null;
+
+// Up to two letters for an avatar, e.g. "Sarah Chen" -> "SC"
+export const nameInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .substring(0, 2);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// The id of the period `date` falls in
+export const leaderboardPeriodId = (type: LeaderboardPeriodType, date = new Date()) =>
+  type === "monthly" ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}` : isoWeekId(date);
+
+export const describePastLeaderboard = (board: PastLeaderboard) =>
+  board.type === "monthly"
+    ? board.startsAt.toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })
+    : describeWeek(board.startsAt);
@@ -0,0 +1,117 @@
+// src/lib/liveScan.ts
+// On-device pre-filter for live scanning: watches low-resolution camera frames and reports when
+// something new is held still in front of the camera, so only those frames go to the classifier.
+
+const SAMPLE_INTERVAL_MS = 300;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+
+// Mean absolute luminance change (0-255) between consecutive samples below which the view is still
+const STILL_THRESHOLD = 6;
+// Samples in a row that must be still before submitting (about one second)
+const STILL_SAMPLES = 4;
+// Luminance standard deviation below which the frame is a blank wall, table or covered lens
+const MIN_DETAIL = 18;
+// How different a still frame must be from the last submitted one to count as a new item
+const NEW_ITEM_THRESHOLD = 14;
+
+export type LiveScanState =
+  | "moving" // camera or item is still moving
+  | "empty" // nothing with enough detail in view
+  | "same" // still showing the item that was just submitted
+  | "ready"; // a new item is held still
+
+const meanAbsoluteDifference = (a: Float32Array, b: Float32Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+const standardDeviation = (values: Float32Array) => {
+  let sum = 0;
+  let sumSquares = 0;
+  for (const value of values) {
+    sum += value;
+    sumSquares += value * value;
+  }
+  const mean = sum / values.length;
+  return Math.sqrt(Math.max(sumSquares / values.length - mean * mean, 0));
+};
+
+// Tracks consecutive frames and decides when one is worth classifying
+export const createLiveScanFilter = () => {
+  let previous: Float32Array | null = null;
+  let lastSubmitted: Float32Array | null = null;
+  let stillCount = 0;
+
+  return {
+    update(frame: Float32Array): LiveScanState {
+      const moved = !previous || meanAbsoluteDifference(frame, previous) > STILL_THRESHOLD;
+      previous = frame;
+      stillCount = moved ? 0 : stillCount + 1;
+
+      if (stillCount < STILL_SAMPLES) return "moving";
+      if (standardDeviation(frame) < MIN_DETAIL) return "empty";
+      if (lastSubmitted && meanAbsoluteDifference(frame, lastSubmitted) < NEW_ITEM_THRESHOLD) return "same";
+      return "ready";
+    },
+    // Call when a frame was sent, so the same item isn't sent again while it stays in view
+    markSubmitted(frame: Float32Array) {
+      lastSubmitted = frame;
+      stillCount = 0;
+    },
+  };
+};
+
+// Grey-scale thumbnail of the current video frame
+const sampleFrame = (video: HTMLVideoElement, context: CanvasRenderingContext2D) => {
+  context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const luma = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+};
+
+// Samples the video until stopped. onReady runs for each new, still item; sampling pauses
+// until the returned promise settles so only one frame is being classified at a time.
+// onState reports every sample's state for UI hints. Returns a function that stops watching
+export const watchForStableItems = (
+  video: HTMLVideoElement,
+  onReady: () => Promise<void>,
+  onState?: (state: LiveScanState) => void
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas 2D context is not available");
+  }
+
+  const filter = createLiveScanFilter();
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    if (stopped) return;
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      const frame = sampleFrame(video, context);
+      const state = filter.update(frame);
+      onState?.(state);
+
+      if (state === "ready") {
+        filter.markSubmitted(frame);
+        await onReady().catch((err) => console.error("Live scan submission failed:", err));
+      }
+    }
+    if (!stopped) timer = setTimeout(tick, SAMPLE_INTERVAL_MS);
+  };
+  tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
@@ -0,0 +1,103 @@
+// src/lib/offlineQueue.ts
+// Scans taken without a connection, kept in IndexedDB until they can be sent. The photo is stored
+// with where it was taken; the backend records and awards the scan when it is finally analyzed.
+
+import { getCachedLocation, type UserLocation } from "../api/regions";
+
+const DB_NAME = "ecoscan-offline";
+const DB_VERSION = 1;
+const STORE = "pendingScans";
+
+// Photos are ~200-400 KB after preprocessing, so this stays well inside browser storage quotas
+export const MAX_PENDING_SCANS = 50;
+
+export interface PendingScan {
+  id: string;
+  uid: string;
+  mode: "single" | "multi";
+  image: Blob;
+  createdAt: number;
+  // The location known when the photo was taken, so local rules match where it was scanned
+  location?: UserLocation;
+  // Sync attempts that failed because the connection was still down
+  attempts: number;
+  // Why the backend couldn't analyze it. Failed scans aren't sent again until the user retries
+  error?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("uid", "uid");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once the transaction has committed
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// Oldest first, so scans are sent in the order they were taken
+export const listPendingScans = async (uid: string) => {
+  const scans = await withStore<PendingScan[]>("readonly", (store) => store.index("uid").getAll(uid));
+  return scans.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const addPendingScan = async (uid: string, image: Blob, mode: PendingScan["mode"]) => {
+  const count = await withStore<number>("readonly", (store) => store.index("uid").count(uid));
+  if (count >= MAX_PENDING_SCANS) {
+    throw new Error(`Only ${MAX_PENDING_SCANS} scans can wait for a connection at once`);
+  }
+
+  const scan: PendingScan = {
+    id: crypto.randomUUID(),
+    uid,
+    mode,
+    image,
+    createdAt: Date.now(),
+    location: getCachedLocation(),
+    attempts: 0,
+  };
+  await withStore("readwrite", (store) => store.add(scan));
+  notify();
+  return scan;
+};
+
+export const updatePendingScan = async (scan: PendingScan) => {
+  await withStore("readwrite", (store) => store.put(scan));
+  notify();
+};
+
+export const removePendingScan = async (id: string) => {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify();
+};
+
+// Calls listener after every change made from this tab. Returns a function that unsubscribes
+export const onPendingScansChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
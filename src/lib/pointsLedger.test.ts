@@ -0,0 +1,89 @@
+// src/lib/pointsLedger.test.ts
+
+import { describe, expect, it } from "vitest";
+import { describeWeek } from "./weeks";
+import { dailyPoints, describeLedgerEntry, weeklyPoints, weeklyPointsSince, type LedgerReason, type PointsLedgerEntry } from "./pointsLedger";
+
+const entry = (createdAt: string, amount: number, reason: LedgerReason = "scan_awarded"): PointsLedgerEntry => ({
+  id: createdAt,
+  amount,
+  itemsRecycled: amount > 0 ? 1 : 0,
+  reason,
+  actor: { type: "system", id: "scan" },
+  scanId: null,
+  rulesVersion: 1,
+  createdAt: new Date(createdAt),
+});
+
+// Sunday, the last day of 2026-W42
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+describe("weeklyPoints", () => {
+  it("labels each week by its Monday, oldest first", () => {
+    // Labels follow the browser's locale, e.g. "Week of Oct 12"
+    expect(weeklyPoints([], 3, NOW).map(({ id, week }) => ({ id, week }))).toEqual([
+      { id: "2026-W40", week: describeWeek(new Date("2026-09-28T00:00:00Z")) },
+      { id: "2026-W41", week: describeWeek(new Date("2026-10-05T00:00:00Z")) },
+      { id: "2026-W42", week: describeWeek(new Date("2026-10-12T00:00:00Z")) },
+    ]);
+  });
+
+  it("buckets entries by UTC ISO week", () => {
+    const totals = weeklyPoints(
+      [
+        entry("2026-10-12T00:00:00Z", 10),
+        entry("2026-10-11T23:59:59Z", 5),
+        // Still Sunday in New York, already Monday in UTC
+        entry("2026-10-04T22:00:00-04:00", 7),
+        entry("2026-10-13T09:00:00Z", -3, "scan_rescored"),
+      ],
+      3,
+      NOW
+    );
+    expect(totals.map((total) => total.points)).toEqual([0, 12, 7]);
+  });
+
+  it("leaves out the opening balance and entries before the first week", () => {
+    const totals = weeklyPoints(
+      [entry("2026-10-14T09:00:00Z", 500, "opening_balance"), entry("2026-09-27T23:00:00Z", 10)],
+      3,
+      NOW
+    );
+    expect(totals.map((total) => total.points)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("weeklyPointsSince", () => {
+  it("starts at midnight UTC on the oldest week's Monday", () => {
+    expect(weeklyPointsSince(3, NOW)).toEqual(new Date("2026-09-28T00:00:00Z"));
+    expect(weeklyPointsSince(1, new Date("2026-10-12T00:00:00Z"))).toEqual(new Date("2026-10-12T00:00:00Z"));
+  });
+});
+
+describe("dailyPoints", () => {
+  it("adds up this week's entries per UTC day, Monday first", () => {
+    const days = dailyPoints(
+      [
+        entry("2026-10-12T00:00:00Z", 10),
+        // Still Sunday in New York, already Monday in UTC
+        entry("2026-10-11T22:00:00-04:00", 7),
+        entry("2026-10-18T23:59:59Z", 5),
+        entry("2026-10-18T09:00:00Z", -3, "scan_rescored"),
+      ],
+      NOW
+    );
+    expect(days.map(({ day, points }) => `${day} ${points}`)).toEqual(["Mon 17", "Tue 0", "Wed 0", "Thu 0", "Fri 0", "Sat 0", "Sun 2"]);
+  });
+
+  it("leaves out last week and the opening balance", () => {
+    const days = dailyPoints([entry("2026-10-11T23:59:59Z", 10), entry("2026-10-14T09:00:00Z", 500, "opening_balance")], NOW);
+    expect(days.every(({ points }) => points === 0)).toBe(true);
+  });
+});
+
+describe("describeLedgerEntry", () => {
+  it("names the reason and flags capped awards", () => {
+    expect(describeLedgerEntry(entry("2026-10-12T00:00:00Z", 10))).toBe("Scan");
+    expect(describeLedgerEntry({ ...entry("2026-10-12T00:00:00Z", 0), dailyCapReached: true })).toBe("Scan • daily cap reached");
+  });
+});
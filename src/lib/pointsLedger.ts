@@ -0,0 +1,77 @@
+// src/lib/pointsLedger.ts
+// Entries in a user's points ledger (users/{uid}/ledger, see backend/lib/ledger.js). Every change
+// to their points is one entry, so the ledger explains the total: what was awarded and what was
+// taken back.
+
+import { describeWeek, isoWeekId, utcWeekStart } from "./weeks";
+
+export type LedgerReason =
+  | "scan_awarded"
+  | "scan_confirmed"
+  | "scan_corrected"
+  | "scan_rescored"
+  | "opening_balance";
+
+export interface PointsLedgerEntry {
+  id: string;
+  // Negative when a correction took points back
+  amount: number;
+  itemsRecycled: number;
+  reason: LedgerReason;
+  actor: { type: "system" | "user" | "admin"; id: string };
+  scanId: string | null;
+  rulesVersion: number | null;
+  dailyCapReached?: boolean;
+  createdAt: Date;
+}
+
+const REASON_LABELS: Record<LedgerReason, string> = {
+  scan_awarded: "Scan",
+  scan_confirmed: "Confirmed scan",
+  scan_corrected: "Corrected scan",
+  scan_rescored: "Scan corrected after award",
+  opening_balance: "Points from before history was kept",
+};
+
+export const describeLedgerEntry = (entry: PointsLedgerEntry) => {
+  const label = REASON_LABELS[entry.reason] ?? entry.reason;
+  return entry.dailyCapReached ? `${label} • daily cap reached` : label;
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Start of the oldest week weeklyPoints counts, for fetching just the entries it needs
+export const weeklyPointsSince = (weeks: number, now = new Date()) =>
+  new Date(utcWeekStart(now).getTime() - (weeks - 1) * WEEK_MS);
+
+// Points per week for the last `weeks` UTC ISO weeks (see weeks.ts), oldest first, counting the
+// current week. The opening balance isn't something earned in the week it was written, so it is left out
+export const weeklyPoints = (entries: PointsLedgerEntry[], weeks: number, now = new Date()) => {
+  const since = weeklyPointsSince(weeks, now);
+  const totals = Array.from({ length: weeks }, (_, i) => {
+    const startsAt = new Date(since.getTime() + i * WEEK_MS);
+    return { id: isoWeekId(startsAt), week: describeWeek(startsAt), points: 0 };
+  });
+  const byId = new Map(totals.map((total) => [total.id, total]));
+  entries.forEach((entry) => {
+    if (entry.reason === "opening_balance") return;
+    const total = byId.get(isoWeekId(entry.createdAt));
+    if (total) total.points += entry.amount;
+  });
+  return totals;
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Points per UTC day of the week `now` falls in, Monday first. Entries are dated when the points
+// changed, like the weekly leaderboard's, so the days add up to the same week
+export const dailyPoints = (entries: PointsLedgerEntry[], now = new Date()) => {
+  const weekId = isoWeekId(now);
+  const totals = WEEKDAYS.map((day) => ({ day, points: 0 }));
+  entries.forEach((entry) => {
+    if (entry.reason === "opening_balance" || isoWeekId(entry.createdAt) !== weekId) return;
+    // getUTCDay() is 0 on Sunday; weeks start on Monday
+    totals[(entry.createdAt.getUTCDay() + 6) % 7].points += entry.amount;
+  });
+  return totals;
+};
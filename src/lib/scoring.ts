@@ -0,0 +1,61 @@
+// src/lib/scoring.ts
+// The scoring rules the backend awards points by (config/scoring, see backend/lib/scoring.js).
+// The app only reads them to describe how points work; it never computes an award itself.
+
+import type { ScoreBreakdown } from "../classifier";
+
+export interface ScoringEvent {
+  id: string;
+  name: string;
+  // ISO dates; the event runs from startsAt up to (not including) endsAt
+  startsAt: string;
+  endsAt: string;
+  multiplier: number;
+  materialIds?: string[];
+  categories?: string[];
+}
+
+export interface ScoringRules {
+  version: number;
+  points: { recyclable: number; notRecyclable: number };
+  categoryBonus?: Record<string, number>;
+  difficulty?: { levels: Record<string, number>; materials: Record<string, string> };
+  firstDiscoveryBonus?: number;
+  streak?: { fromDay: number; bonusPerDay: number; maxMultiplier: number };
+  events?: ScoringEvent[];
+  dailyCap: number;
+}
+
+export const activeScoringEvents = (rules: ScoringRules, now = new Date()) =>
+  (rules.events ?? []).filter((event) => now >= new Date(event.startsAt) && now < new Date(event.endsAt));
+
+// Short notes on what lifted a scan's points, e.g. ["+15 first-time bonus", "×1.2 5-day streak"]
+export const describeBonuses = (scoring: ScoreBreakdown | undefined) => {
+  if (!scoring) return [];
+  const bonuses: string[] = [];
+  if (scoring.discoveryBonus > 0) bonuses.push(`+${scoring.discoveryBonus} first-time bonus`);
+  if (scoring.streakMultiplier > 1) bonuses.push(`×${scoring.streakMultiplier} ${scoring.streakDays}-day streak`);
+  scoring.events.forEach((event) => bonuses.push(`×${event.multiplier} ${event.name}`));
+  return bonuses;
+};
+
+// e.g. "Earth Week: ×2 points on metal, glass until 4/26/2026"
+export const describeScoringEvent = (event: ScoringEvent) => {
+  const scope = [...(event.categories ?? []), ...(event.materialIds ?? [])];
+  const until = new Date(new Date(event.endsAt).getTime() - 1).toLocaleDateString();
+  return `${event.name}: ×${event.multiplier} points${scope.length ? ` on ${scope.join(", ")}` : ""} until ${until}`;
+};
+
+// How points work, for the "Earn points with every scan!" card
+export const describePointRules = (rules: ScoringRules) => {
+  const sentences = [
+    `Get ${rules.points.recyclable} points for recyclable items and ${rules.points.notRecyclable} points for learning about non-recyclables.`,
+  ];
+  if (rules.firstDiscoveryBonus) {
+    sentences.push(`Your first scan of each material earns ${rules.firstDiscoveryBonus} bonus points.`);
+  }
+  if (rules.streak && rules.streak.maxMultiplier > 1) {
+    sentences.push(`Scan ${rules.streak.fromDay} days in a row to multiply your points, up to ×${rules.streak.maxMultiplier}.`);
+  }
+  return sentences.join(" ");
+};
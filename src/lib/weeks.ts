@@ -0,0 +1,23 @@
+// src/lib/weeks.ts
+// UTC ISO weeks, the weeks points are grouped by. They start at midnight UTC on Monday, so every
+// user sees the same week whatever their time zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Midnight UTC on the Monday that starts the week `date` falls in
+export const utcWeekStart = (date = new Date()) => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return new Date(day - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+// "2026-W42" for the week `date` falls in. ISO weeks belong to the year their Thursday falls in
+export const isoWeekId = (date = new Date()) => {
+  const thursday = new Date(utcWeekStart(date).getTime() + 3 * DAY_MS);
+  const week = Math.floor((thursday.getTime() - Date.UTC(thursday.getUTCFullYear(), 0, 1)) / (7 * DAY_MS)) + 1;
+  return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+};
+
+// "Week of Oct 12" for the week starting at startsAt
+export const describeWeek = (startsAt: Date) =>
+  `Week of ${startsAt.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })}`;
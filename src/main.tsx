@@ -1,9 +1,15 @@
 
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
+  import { UpdatePrompt } from "./components/UpdatePrompt";
   import "./index.css";
 
   import "./styles/globals.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  // Outside App so the service worker is registered once, whether or not anyone is signed in
+  createRoot(document.getElementById("root")!).render(
+    <>
+      <App />
+      <UpdatePrompt />
+    </>
+  );
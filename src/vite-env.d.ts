@@ -1,9 +1,16 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
 
 interface ImportMetaEnv {
   readonly VITE_GEOAPIFY_API_KEY: string;
+  // Backend origin for /api calls; leave unset to use the same origin
+  readonly VITE_API_BASE_URL?: string;
+  // "api" (default) or "mock"
+  readonly VITE_CLASSIFIER_PROVIDER?: string;
+  // Longest side, in pixels, photos are scaled down to before upload (default 1280)
+  readonly VITE_IMAGE_MAX_DIMENSION?: string;
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;
-}
\ No newline at end of file
+}
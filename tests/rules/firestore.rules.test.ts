@@ -0,0 +1,290 @@
+// tests/rules/firestore.rules.test.ts
+// Runs against the Firestore emulator: npm run test:rules
+
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, getDoc, getDocs, collection, setDoc, updateDoc, deleteDoc, increment, writeBatch } from "firebase/firestore";
+
+const ALICE = "alice";
+const BOB = "bob";
+
+let testEnv: RulesTestEnvironment;
+
+const newProfile = (uid: string) => ({
+  uid,
+  name: "Alice",
+  points: 0,
+  itemsRecycled: 0,
+  createdAt: new Date(),
+});
+
+// Seeds data the way the backend would, bypassing the rules
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), path), data);
+  });
+
+const asUser = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+const asGuest = () => testEnv.unauthenticatedContext().firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-ecoscan-rules",
+    firestore: { rules: readFileSync(new URL("../../firestore.rules", import.meta.url), "utf8") },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+describe("users/{uid}", () => {
+  beforeEach(async () => {
+    await seed(`users/${ALICE}`, { ...newProfile(ALICE), points: 120, itemsRecycled: 9 });
+  });
+
+  it("lets signed-in users read any profile for the leaderboard", async () => {
+    await assertSucceeds(getDoc(doc(asUser(BOB), "users", ALICE)));
+    await assertSucceeds(getDocs(collection(asUser(BOB), "users")));
+  });
+
+  it("hides profiles from signed-out visitors", async () => {
+    await assertFails(getDoc(doc(asGuest(), "users", ALICE)));
+  });
+
+  it("lets a new user create their own profile starting from zero", async () => {
+    await assertSucceeds(setDoc(doc(asUser(BOB), "users", BOB), { ...newProfile(BOB), name: "Bob" }));
+  });
+
+  it("rejects profiles that start with points", async () => {
+    await assertFails(setDoc(doc(asUser(BOB), "users", BOB), { ...newProfile(BOB), points: 500 }));
+    await assertFails(setDoc(doc(asUser(BOB), "users", BOB), { ...newProfile(BOB), itemsRecycled: 3 }));
+  });
+
+  it("rejects profiles created for someone else or with extra fields", async () => {
+    await assertFails(setDoc(doc(asUser(BOB), "users", "carol"), newProfile("carol")));
+    await assertFails(setDoc(doc(asUser(BOB), "users", BOB), { ...newProfile(BOB), isAdmin: true }));
+  });
+
+  it("lets owners rename themselves", async () => {
+    await assertSucceeds(updateDoc(doc(asUser(ALICE), "users", ALICE), { name: "Alice B." }));
+  });
+
+  it("keeps points and itemsRecycled immutable from the client", async () => {
+    const ref = doc(asUser(ALICE), "users", ALICE);
+    await assertFails(updateDoc(ref, { points: increment(10) }));
+    await assertFails(updateDoc(ref, { points: 0 }));
+    await assertFails(updateDoc(ref, { itemsRecycled: increment(1) }));
+    await assertFails(setDoc(ref, { points: 9999 }, { merge: true }));
+  });
+
+  it("rejects any other field owners try to change or add", async () => {
+    const ref = doc(asUser(ALICE), "users", ALICE);
+    await assertFails(updateDoc(ref, { uid: BOB }));
+    await assertFails(updateDoc(ref, { createdAt: new Date() }));
+    await assertFails(updateDoc(ref, { isAdmin: true }));
+    await assertFails(updateDoc(ref, { name: "Alice B.", isAdmin: true }));
+  });
+
+  it("rejects changes to another user's profile", async () => {
+    await assertFails(updateDoc(doc(asUser(BOB), "users", ALICE), { name: "Not Alice" }));
+  });
+
+  it("does not let clients delete profiles", async () => {
+    await assertFails(deleteDoc(doc(asUser(ALICE), "users", ALICE)));
+  });
+});
+
+describe("users/{uid}/settings/preferences", () => {
+  const path = `users/${ALICE}/settings/preferences`;
+
+  it("lets owners choose and clear their recycling region", async () => {
+    await assertSucceeds(setDoc(doc(asUser(ALICE), path), { region: "us-ca-san-francisco" }));
+    await assertSucceeds(setDoc(doc(asUser(ALICE), path), { region: null }));
+    await assertSucceeds(getDoc(doc(asUser(ALICE), path)));
+  });
+
+  it("keeps preferences private", async () => {
+    await seed(path, { region: "us-ca-san-francisco" });
+    await assertFails(getDoc(doc(asUser(BOB), path)));
+    await assertFails(setDoc(doc(asUser(BOB), path), { region: "ca-on-toronto" }));
+  });
+
+  it("rejects unexpected fields and malformed regions", async () => {
+    await assertFails(setDoc(doc(asUser(ALICE), path), { region: "ca-on-toronto", points: 100 }));
+    await assertFails(setDoc(doc(asUser(ALICE), path), { region: 42 }));
+  });
+});
+
+describe("users/{uid}/private/scoring", () => {
+  const scoringPath = `users/${ALICE}/private/scoring`;
+
+  beforeEach(async () => {
+    await seed(scoringPath, { pointsDay: "2025-03-14", pointsToday: 40 });
+  });
+
+  it("lets only the owner read their scoring state", async () => {
+    await assertSucceeds(getDoc(doc(asUser(ALICE), scoringPath)));
+    await assertFails(getDoc(doc(asUser(BOB), scoringPath)));
+  });
+
+  it("keeps the daily cap counters immutable from the client", async () => {
+    const ref = doc(asUser(ALICE), scoringPath);
+    await assertFails(updateDoc(ref, { pointsToday: 0 }));
+    await assertFails(setDoc(ref, { pointsDay: "2000-01-01" }));
+  });
+
+  it("keeps streaks and discovered materials immutable from the client", async () => {
+    const ref = doc(asUser(ALICE), scoringPath);
+    await assertFails(updateDoc(ref, { streakDays: 30 }));
+    await assertFails(updateDoc(ref, { streakDay: "2000-01-01" }));
+    await assertFails(updateDoc(ref, { discoveredMaterials: [] }));
+  });
+});
+
+describe("users/{uid}/scans", () => {
+  const scanPath = `users/${ALICE}/scans/scan-1`;
+
+  beforeEach(async () => {
+    await seed(scanPath, { material: "Glass bottle", recyclable: true, status: "awarded", pointsEarned: 10 });
+  });
+
+  it("lets owners read their own scans", async () => {
+    await assertSucceeds(getDoc(doc(asUser(ALICE), scanPath)));
+    await assertSucceeds(getDocs(collection(asUser(ALICE), "users", ALICE, "scans")));
+  });
+
+  it("hides scans from other users", async () => {
+    await assertFails(getDoc(doc(asUser(BOB), scanPath)));
+    await assertFails(getDocs(collection(asUser(BOB), "users", ALICE, "scans")));
+  });
+
+  it("rejects every client write, including the owner's", async () => {
+    const db = asUser(ALICE);
+    await assertFails(setDoc(doc(db, "users", ALICE, "scans", "forged"), { recyclable: true, pointsEarned: 10 }));
+    await assertFails(updateDoc(doc(db, scanPath), { pointsEarned: 100 }));
+    await assertFails(deleteDoc(doc(db, scanPath)));
+  });
+});
+
+describe("users/{uid}/ledger", () => {
+  const entryPath = `users/${ALICE}/ledger/entry-1`;
+
+  beforeEach(async () => {
+    await seed(entryPath, { amount: 10, itemsRecycled: 1, reason: "scan_awarded", scanId: "scan-1", rulesVersion: 1 });
+  });
+
+  it("lets owners read their own points history", async () => {
+    await assertSucceeds(getDoc(doc(asUser(ALICE), entryPath)));
+    await assertSucceeds(getDocs(collection(asUser(ALICE), "users", ALICE, "ledger")));
+  });
+
+  it("hides the ledger from other users", async () => {
+    await assertFails(getDoc(doc(asUser(BOB), entryPath)));
+    await assertFails(getDocs(collection(asUser(BOB), "users", ALICE, "ledger")));
+  });
+
+  it("rejects every client write, including the owner's", async () => {
+    const db = asUser(ALICE);
+    await assertFails(setDoc(doc(db, "users", ALICE, "ledger", "forged"), { amount: 1000, reason: "scan_awarded" }));
+    await assertFails(updateDoc(doc(db, entryPath), { amount: 100 }));
+    await assertFails(deleteDoc(doc(db, entryPath)));
+  });
+});
+
+describe("leaderboards", () => {
+  const periodPath = "leaderboards/weekly/periods/2025-W11";
+  const entryPath = `${periodPath}/entries/${ALICE}`;
+
+  beforeEach(async () => {
+    await seed(periodPath, { type: "weekly", id: "2025-W11", winners: [{ rank: 1, uid: ALICE, points: 120 }] });
+    await seed(entryPath, { uid: ALICE, name: "Alice", points: 120, itemsRecycled: 9 });
+  });
+
+  it("lets signed-in users read period boards and past winners", async () => {
+    const db = asUser(BOB);
+    await assertSucceeds(getDoc(doc(db, periodPath)));
+    await assertSucceeds(getDocs(collection(db, periodPath, "entries")));
+    await assertSucceeds(getDocs(collection(db, "leaderboards", "monthly", "periods")));
+  });
+
+  it("hides the boards from signed-out visitors", async () => {
+    await assertFails(getDoc(doc(asGuest(), entryPath)));
+  });
+
+  it("rejects every client write, including to the user's own entry", async () => {
+    const db = asUser(ALICE);
+    await assertFails(updateDoc(doc(db, entryPath), { points: increment(1000) }));
+    await assertFails(setDoc(doc(db, "leaderboards", "weekly", "periods", "2025-W12", "entries", ALICE), { points: 1000 }));
+    await assertFails(setDoc(doc(db, periodPath), { winners: [] }));
+    await assertFails(deleteDoc(doc(db, entryPath)));
+  });
+});
+
+describe("stats/users", () => {
+  // What createNewUserProfile does: create the profile and count it in one batch
+  const signUp = (uid: string, by = 1) => {
+    const db = asUser(uid);
+    const batch = writeBatch(db);
+    batch.set(doc(db, "users", uid), newProfile(uid));
+    batch.set(doc(db, "stats", "users"), { count: increment(by) }, { merge: true });
+    return batch.commit();
+  };
+
+  it("lets a new user count themselves while creating their profile", async () => {
+    await assertSucceeds(signUp(ALICE));
+    await assertSucceeds(signUp(BOB));
+    await assertSucceeds(getDoc(doc(asUser(ALICE), "stats", "users")));
+  });
+
+  it("rejects counting without creating a profile", async () => {
+    await seed("stats/users", { count: 1 });
+    await assertFails(updateDoc(doc(asUser(BOB), "stats", "users"), { count: increment(1) }));
+  });
+
+  it("rejects counting an existing user again", async () => {
+    await seed(`users/${ALICE}`, newProfile(ALICE));
+    await seed("stats/users", { count: 1 });
+    await assertFails(updateDoc(doc(asUser(ALICE), "stats", "users"), { count: increment(1) }));
+  });
+
+  it("rejects changing the count by anything but one", async () => {
+    await seed("stats/users", { count: 1 });
+    await assertFails(signUp(BOB, 5));
+    await assertFails(deleteDoc(doc(asUser(ALICE), "stats", "users")));
+  });
+
+  it("hides the count from signed-out visitors", async () => {
+    await seed("stats/users", { count: 1 });
+    await assertFails(getDoc(doc(asGuest(), "stats", "users")));
+  });
+});
+
+describe("config/scoring", () => {
+  beforeEach(async () => {
+    await seed("config/scoring", { version: 1, points: { recyclable: 10, notRecyclable: 5 }, dailyCap: 200 });
+  });
+
+  it("lets signed-in users read the scoring rules", async () => {
+    await assertSucceeds(getDoc(doc(asUser(ALICE), "config", "scoring")));
+  });
+
+  it("hides the rules from signed-out visitors", async () => {
+    await assertFails(getDoc(doc(asGuest(), "config", "scoring")));
+  });
+
+  it("rejects every client write", async () => {
+    await assertFails(setDoc(doc(asUser(ALICE), "config", "scoring"), { version: 2, points: { recyclable: 1000, notRecyclable: 5 } }));
+    await assertFails(deleteDoc(doc(asUser(ALICE), "config", "scoring")));
+  });
+});
@@ -1,10 +1,67 @@
 
   import { defineConfig } from 'vite';
   import react from '@vitejs/plugin-react-swc';
+  import { VitePWA } from 'vite-plugin-pwa';
   import path from 'path';
 
   export default defineConfig({
-    plugins: [react()],
+    plugins: [
+      react(),
+      VitePWA({
+        // The new version waits until the user accepts the "update available" prompt (UpdatePrompt.tsx)
+        registerType: 'prompt',
+        // Rendered from the app logo by `npm run generate:icons`
+        includeAssets: ['icons/*.png'],
+        manifest: {
+          id: '/',
+          name: 'EcoScan – Recycle Smarter',
+          short_name: 'EcoScan',
+          description: 'Scan items to learn how to recycle them and earn points for it.',
+          start_url: '/',
+          scope: '/',
+          display: 'standalone',
+          orientation: 'portrait',
+          background_color: '#f0fdf4',
+          theme_color: '#078341',
+          icons: [
+            { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+            { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+            { src: '/icons/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+          ],
+        },
+        workbox: {
+          globPatterns: ['**/*.{js,css,html,svg,png,ico,woff2}'],
+          // The scanner and map chunks are large; precache them so the shell opens offline
+          maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+          navigateFallback: '/index.html',
+          navigateFallbackDenylist: [/^\/api\//, /^\/__\//],
+          runtimeCaching: [
+            {
+              // Map tiles: the recycling map keeps showing the areas a user has already looked at
+              urlPattern: ({ url }) => url.origin === 'https://maps.geoapify.com' && url.pathname.startsWith('/v1/tile/'),
+              handler: 'CacheFirst',
+              options: {
+                cacheName: 'map-tiles',
+                expiration: { maxEntries: 500, maxAgeSeconds: 30 * 24 * 60 * 60 },
+                cacheableResponse: { statuses: [0, 200] },
+              },
+            },
+            {
+              urlPattern: ({ url }) =>
+                url.origin === 'https://fonts.googleapis.com' ||
+                url.origin === 'https://fonts.gstatic.com' ||
+                url.origin === 'https://cdnjs.cloudflare.com',
+              handler: 'StaleWhileRevalidate',
+              options: {
+                cacheName: 'fonts-and-styles',
+                expiration: { maxEntries: 30, maxAgeSeconds: 365 * 24 * 60 * 60 },
+                cacheableResponse: { statuses: [0, 200] },
+              },
+            },
+          ],
+        },
+      }),
+    ],
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
       alias: {
@@ -56,5 +113,9 @@
     server: {
       port: 3000,
       open: true,
+      // The Express backend (backend/) serves /api; run it with PORT=3001 during development
+      proxy: {
+        '/api': 'http://localhost:3001',
+      },
     },
   });
\ No newline at end of file